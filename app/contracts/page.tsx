@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Header from '@/components/Header';
+import { Badge, Card } from '@/components/ui/components';
+import { ContractRecord, useContractStore, useStoreHydrated } from '@/lib/contract-store';
+import { showToast } from '@/components/Toast';
+import StorageUsage from '@/components/StorageUsage';
+
+export default function WorkspacePage() {
+    const router = useRouter();
+    const { contracts, activeContractId, setActiveContract, renameContract, duplicateContract, deleteContract } = useContractStore();
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    // Contracts only exist client-side, so wait for the persisted workspace
+    const hasHydrated = useStoreHydrated();
+
+    const list = Object.values(contracts).sort((a, b) => b.updatedAt - a.updatedAt);
+
+    const openContract = (contract: ContractRecord, view: 'report' | 'negotiation') => {
+        setActiveContract(contract.contractId);
+        router.push(view === 'report' && contract.analysisResult
+            ? `/report/${contract.contractId}`
+            : `/negotiation/${contract.contractId}`);
+    };
+
+    const startRename = (contract: ContractRecord) => {
+        setEditingId(contract.contractId);
+        setDraftName(contract.name);
+    };
+
+    const saveRename = () => {
+        if (editingId) renameContract(editingId, draftName);
+        setEditingId(null);
+    };
+
+    const handleDuplicate = (contract: ContractRecord) => {
+        if (duplicateContract(contract.contractId)) {
+            showToast(`Duplicated "${contract.name}".`, 'success');
+        }
+    };
+
+    const handleDelete = (contract: ContractRecord) => {
+        if (!window.confirm(`Delete "${contract.name}"? Its analysis, chat and versions will be removed.`)) return;
+        deleteContract(contract.contractId);
+        showToast(`Deleted "${contract.name}".`, 'info');
+    };
+
+    return (
+        <>
+            <Header />
+            <div className="min-h-screen p-4 pt-24 bg-gradient-to-b from-background to-accent/20">
+                <main className="max-w-5xl mx-auto space-y-8">
+                    <div className="flex items-end justify-between gap-4">
+                        <div>
+                            <h1 className="text-4xl font-serif font-bold text-gradient-gold">Workspace</h1>
+                            <p className="text-muted-foreground mt-2">
+                                {list.length} contract{list.length === 1 ? '' : 's'} under review
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-6">
+                            <StorageUsage refreshKey={contracts} />
+                            <button
+                                onClick={() => router.push('/')}
+                                className="px-6 py-2 rounded-full bg-gradient-to-r from-primary to-slate-800 text-white font-semibold hover:shadow-lg hover:scale-[1.02] transition-all duration-200"
+                            >
+                                + New Contract
+                            </button>
+                        </div>
+                    </div>
+
+                    {hasHydrated && list.length === 0 && (
+                        <div className="p-12 text-center text-muted-foreground bg-white/5 rounded-2xl border border-dashed border-white/10">
+                            No contracts yet. Upload one to get started.
+                        </div>
+                    )}
+
+                    <div className="space-y-4">
+                        {hasHydrated && list.map((contract) => {
+                            const analysis = contract.analysisResult;
+                            const redCount = contract.flags.filter(f => f.type === 'red').length;
+                            const yellowCount = contract.flags.filter(f => f.type === 'yellow').length;
+
+                            return (
+                                <Card
+                                    key={contract.contractId}
+                                    className={`p-6 ${contract.contractId === activeContractId ? 'border-secondary/50' : ''}`}
+                                >
+                                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                                        <div className="min-w-0 flex-1 space-y-2">
+                                            {editingId === contract.contractId ? (
+                                                <input
+                                                    autoFocus
+                                                    value={draftName}
+                                                    onChange={(e) => setDraftName(e.target.value)}
+                                                    onBlur={saveRename}
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === 'Enter') saveRename();
+                                                        if (e.key === 'Escape') setEditingId(null);
+                                                    }}
+                                                    className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-lg font-serif text-foreground focus:outline-none focus:border-secondary/50"
+                                                />
+                                            ) : (
+                                                <h2 className="text-xl font-serif font-bold text-foreground truncate">{contract.name}</h2>
+                                            )}
+                                            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                                                {analysis && <Badge>{analysis.contract_type}</Badge>}
+                                                {analysis && <span>Health {analysis.total_health_score}</span>}
+                                                {redCount > 0 && <Badge variant="red">{redCount} red</Badge>}
+                                                {yellowCount > 0 && <Badge variant="yellow">{yellowCount} yellow</Badge>}
+                                                <span>{contract.versions.length} version{contract.versions.length === 1 ? '' : 's'}</span>
+                                                {contract.file && <span>• {contract.file.name}</span>}
+                                                <span>• Updated {new Date(contract.updatedAt).toLocaleString()}</span>
+                                            </div>
+                                        </div>
+
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <button
+                                                onClick={() => openContract(contract, 'report')}
+                                                disabled={!analysis}
+                                                className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-sm text-foreground transition-colors disabled:opacity-40"
+                                            >
+                                                Report
+                                            </button>
+                                            <button
+                                                onClick={() => openContract(contract, 'negotiation')}
+                                                className="px-4 py-2 rounded-lg bg-secondary/20 hover:bg-secondary/30 text-sm text-secondary transition-colors"
+                                            >
+                                                Negotiate
+                                            </button>
+                                            <button onClick={() => startRename(contract)} className="px-3 py-2 text-xs text-muted-foreground hover:text-foreground transition-colors">
+                                                Rename
+                                            </button>
+                                            <button onClick={() => handleDuplicate(contract)} className="px-3 py-2 text-xs text-muted-foreground hover:text-foreground transition-colors">
+                                                Duplicate
+                                            </button>
+                                            <button onClick={() => handleDelete(contract)} className="px-3 py-2 text-xs text-red-400/80 hover:text-red-400 transition-colors">
+                                                Delete
+                                            </button>
+                                        </div>
+                                    </div>
+                                </Card>
+                            );
+                        })}
+                    </div>
+                </main>
+            </div>
+        </>
+    );
+}
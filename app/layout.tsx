@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import { Inter, Playfair_Display } from "next/font/google";
 import "./globals.css";
 import { ToastContainer } from "@/components/Toast";
+import { ConnectionBanner } from "@/components/ConnectionBanner";
+import { ErrorReporting } from "@/components/ErrorReporting";
 
 const inter = Inter({
   variable: "--font-sans",
@@ -28,6 +30,8 @@ export default function RootLayout({
       <body
         className="antialiased"
       >
+        <ErrorReporting />
+        <ConnectionBanner />
         {children}
         <ToastContainer />
       </body>
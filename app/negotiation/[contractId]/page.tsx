@@ -0,0 +1,1344 @@
+'use client';
+
+import { useEffect, useMemo, useState, useRef } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { ChatMessage, FlagWithText, useContractStore, useStoreHydrated } from '@/lib/contract-store';
+import { jsPDF } from 'jspdf';
+import { AnalysisResult, analyzeContract, NegotiationPayload } from '@/lib/api';
+import { DEFAULT_JURISDICTION } from '@/lib/jurisdictions';
+import { streamNegotiation } from '@/lib/negotiationStream';
+import { ApiError, describeError, ErrorDescription, handleError, isAbortError, logError } from '@/lib/errorHandler';
+import { showToast } from '@/components/Toast';
+import RevisionReview from '@/components/RevisionReview';
+import VersionHistory from '@/components/VersionHistory';
+import LetterComposer from '@/components/LetterComposer';
+import ClauseOutline from '@/components/ClauseOutline';
+import RiskExplanation from '@/components/RiskExplanation';
+import ErrorNotice from '@/components/ErrorNotice';
+import StrategyCard from '@/components/StrategyCard';
+import { findClause, flattenClauses, formatClauseLabel, getClauseText, parseClauses } from '@/lib/clauses';
+import { anchorFlags, buildHighlightSegments } from '@/lib/anchoring';
+import { buildChatHistory, chatToMarkdown } from '@/lib/chatHistory';
+import { downloadBlob, withFileSuffix } from '@/lib/download';
+import { EditScope, locateEditScopes, spliceScopedEdits } from '@/lib/scopedEdits';
+import { NegotiationStrategy } from '@/lib/strategy';
+import { playbookForClauses, usePlaybookStore } from '@/lib/playbook';
+
+interface ClauseItem {
+    id: string; // Changed to string to match flag IDs
+    title: string;
+    text: string;
+    original_text: string;
+    riskLevel: 'high' | 'medium' | 'low';
+    sectionId: string | null; // Contract clause the flag sits in, see lib/clauses
+}
+
+type NegotiationOutcome = 'completed' | 'stopped' | 'failed';
+
+const NO_FLAGS: FlagWithText[] = [];
+
+// An AI-proposed edit awaiting review; only committed to the store once approved
+interface PendingRevision {
+    id: number;
+    baseText: string;
+    proposedText: string;
+    isStreaming: boolean;
+    // Clause-scoped request: the ranges of baseText the edit should stay within; null for whole-document edits
+    scopes: EditScope[] | null;
+    strategy?: NegotiationStrategy; // Kept with the version once accepted
+    flagIds: string[]; // Flags the request negotiated; they leave the list once the edit is applied
+}
+
+
+
+export default function NegotiationPage() {
+    const { contractId } = useParams<{ contractId: string }>();
+    const hasHydrated = useStoreHydrated();
+
+    // Wait for the persisted workspace so the playground mounts with this contract's chat history
+    if (!hasHydrated) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-[#0a0f1c] text-white">
+                <div className="w-12 h-12 border-4 border-[#d4af37] border-t-transparent rounded-full animate-spin"></div>
+            </div>
+        );
+    }
+
+    return <NegotiationPlayground key={contractId} contractId={contractId} />;
+}
+
+function NegotiationPlayground({ contractId }: { contractId: string }) {
+    const router = useRouter();
+    const [contractText, setContractText] = useState<string>("");
+    const [clauses, setClauses] = useState<ClauseItem[]>([]);
+    const [selectedClauseIds, setSelectedClauseIds] = useState<string[]>([]);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [isReanalyzing, setIsReanalyzing] = useState(false);
+    const [analysisResults, setAnalysisResults] = useState<AnalysisResult | null>(null);
+    const [pendingRevision, setPendingRevision] = useState<PendingRevision | null>(null);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isLetterOpen, setIsLetterOpen] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [draftText, setDraftText] = useState("");
+
+    const [leftPanel, setLeftPanel] = useState<'flags' | 'outline'>('flags');
+    const [activeSectionId, setActiveSectionId] = useState<string | null>(null);
+    const documentRef = useRef<HTMLDivElement>(null);
+
+    // Mobile tab state
+    const [activeTab, setActiveTab] = useState<'clauses' | 'contract' | 'copilot'>('clauses');
+
+    // Copilot chat state
+    const [chatInput, setChatInput] = useState("");
+    const [messages, setMessages] = useState<ChatMessage[]>(
+        () => useContractStore.getState().contracts[contractId]?.chatHistory ?? []
+    );
+    const chatEndRef = useRef<HTMLDivElement>(null);
+    const announcedClausesRef = useRef<Set<string>>(new Set()); // Track announced clauses
+    const abortControllerRef = useRef<AbortController | null>(null);
+    // Last failed copilot request, offered for retry under the chat
+    const [chatError, setChatError] = useState<{ error: ErrorDescription; retry: () => void } | null>(null);
+
+    // Zustand store - this route's contract from the workspace
+    const contract = useContractStore((state) => state.contracts[contractId]);
+    const { setActiveContract, setChatHistory, removeNegotiatedClause, updateContractContent, undo, redo } = useContractStore();
+    const contractContent = contract?.contractContent ?? '';
+    const flags = contract?.flags ?? NO_FLAGS;
+    const analysisResult = contract?.analysisResult ?? null;
+    const jurisdiction = contract?.jurisdiction || DEFAULT_JURISDICTION;
+    const versions = contract?.versions ?? [];
+    const versionIndex = contract?.versionIndex ?? -1;
+
+
+    // Store actions apply to the active contract, so make this route's contract active
+    useEffect(() => {
+        if (contract) setActiveContract(contractId);
+    }, [contract, contractId, setActiveContract]);
+
+    // Save the conversation with the contract once a reply has finished streaming
+    useEffect(() => {
+        if (isProcessing || !contract) return;
+        if (contract.chatHistory !== messages) setChatHistory(messages);
+    }, [messages, isProcessing, contract, setChatHistory]);
+
+    // Cancel any in-flight negotiation when leaving the page
+    useEffect(() => {
+        return () => abortControllerRef.current?.abort();
+    }, []);
+
+    // Auto-scroll chat
+    useEffect(() => {
+        chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [messages]);
+
+    // Load contract and convert flags to clauses
+    useEffect(() => {
+        // Load contract content from store
+        if (contractContent) {
+            // Already normalized at upload; re-cleaning would reflow edited text
+            setContractText(contractContent);
+        } else {
+            router.push(contract ? '/' : '/contracts'); // Redirect if no contract
+            return;
+        }
+
+        // Load analysis results
+        if (analysisResult) {
+            setAnalysisResults(analysisResult);
+        }
+
+        // Convert flags to clauses (only red and yellow flags for negotiation)
+        const redAndYellowFlags = flags.filter(f => f.type === 'red' || f.type === 'yellow');
+        const clauseItems: ClauseItem[] = redAndYellowFlags.map((flag) => ({
+            id: flag.id,
+            title: flag.analysis.substring(0, 50) + '...',
+            text: flag.analysis,
+            original_text: flag.original_text,
+            riskLevel: flag.type === 'red' ? 'high' : 'medium',
+            sectionId: flag.clauseId,
+        }));
+        setClauses(clauseItems);
+    }, [contractContent, flags, analysisResult, router, contract]);
+
+    // Toggle clause selection
+    const toggleClauseSelection = (clauseId: string) => {
+        setSelectedClauseIds(prev => {
+            const isCurrentlySelected = prev.includes(clauseId);
+
+            if (isCurrentlySelected) {
+                // Deselecting - remove from array and tracking
+                announcedClausesRef.current.delete(clauseId);
+
+                // Remove the selection message from chat
+                const clause = clauses.find(c => c.id === clauseId);
+                if (clause) {
+                    setMessages(prevMessages =>
+                        prevMessages.filter(msg =>
+                            msg.text !== `📌 Selected: ${clause.title} `
+                        )
+                    );
+                }
+
+                return prev.filter(id => id !== clauseId);
+            } else {
+                // Selecting - add to array and add message (only once)
+                if (!announcedClausesRef.current.has(clauseId)) {
+                    const clause = clauses.find(c => c.id === clauseId);
+                    if (clause) {
+                        announcedClausesRef.current.add(clauseId);
+                        setMessages(prevMessages => [...prevMessages, {
+                            role: 'user',
+                            text: `📌 Selected: ${clause.title} `
+                        }]);
+                    }
+                }
+                return [...prev, clauseId];
+            }
+        });
+    };
+
+    // Process single clause
+    const processClause = async (clauseId: string) => {
+        const clause = clauses.find(c => c.id === clauseId);
+        if (!clause) return;
+
+        if (!confirmReplacePending() || !confirmFullRewrite([clause])) return;
+
+        const message = chatInput.trim() || `Analyze and negotiate a better version of: "${clause.text}"`;
+        setChatInput(""); // Clear input after processing
+        const run = async () => {
+            await processNegotiation([clause], message, run);
+        };
+        await run();
+    };
+
+    // A new request would replace an edit still waiting for review, so the user decides what happens to it first
+    const confirmReplacePending = () => {
+        if (!pendingRevision) return true;
+        if (!window.confirm('A proposed edit is still waiting for your review. Discard it and send a new request?')) return false;
+        setPendingRevision(null);
+        return true;
+    };
+
+    // Clauses that can't be found in the current text are sent as a whole-document edit, which the user agrees to first
+    const confirmFullRewrite = (selected: ClauseItem[]) =>
+        locateEditScopes(contractText, selected) !== null
+        || window.confirm("The selected clauses couldn't be found in the current contract text, so the copilot would rewrite the whole contract. Continue?");
+
+    // Once the user applies an edit, drop the clauses it negotiated from the list, the selection and the store
+    const finishClauses = (clauseIds: string[]) => {
+        setSelectedClauseIds(prev => prev.filter(id => !clauseIds.includes(id)));
+        setClauses(prev => prev.filter(c => !clauseIds.includes(c.id)));
+        clauseIds.forEach(id => {
+            removeNegotiatedClause(id);
+            announcedClausesRef.current.delete(id);
+        });
+    };
+
+    // Process all selected clauses
+    const processAllClauses = async () => {
+        const selectedClauses = clauses.filter(c => selectedClauseIds.includes(c.id));
+        if (selectedClauses.length === 0 || !confirmReplacePending() || !confirmFullRewrite(selectedClauses)) return;
+
+        const message = chatInput.trim() || `Negotiate better versions of all selected clauses.`;
+        setChatInput(""); // Clear input after processing
+        const run = async () => {
+            await processNegotiation(selectedClauses, message, run);
+        };
+        await run();
+    };
+
+    // Core negotiation processing with streaming
+    // `retry` re-runs the whole request, including what the caller does after it succeeds
+    const processNegotiation = async (clauses: ClauseItem[], message: string, retry: () => void): Promise<NegotiationOutcome> => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setIsProcessing(true);
+        setChatError(null);
+        // Don't add message here - already added by toggleClauseSelection or handleChatSend
+
+        let agentResponse = "";
+        // The reply is one message: created by the first strategy or text event, then updated in place
+        let replyStarted = false;
+        const updateReply = (update: Partial<ChatMessage>) => {
+            const isNew = !replyStarted;
+            replyStarted = true;
+            setMessages(prev => isNew
+                ? [...prev, { role: 'agent', text: '', ...update }]
+                : prev.map((m, i) => i === prev.length - 1 ? { ...m, ...update } : m));
+        };
+
+        // Negotiating specific clauses: ask for replacements of just those ranges, spliced in here
+        const scopes = clauses.length > 0 ? locateEditScopes(contractText, clauses) : null;
+        const playbook = playbookForClauses(usePlaybookStore.getState().rules, contractText, clauses);
+        const flagIds = clauses.map(c => c.id);
+
+        try {
+            const payload: NegotiationPayload = {
+                message: message,
+                contract_context: contractText,
+                jurisdiction,
+                analysis_context: analysisResults || {},
+                selected_clause: clauses.map(c => c.text).join('\n\n'),
+                history: buildChatHistory(messages),
+                edit_scope: scopes ? 'clauses' : 'document',
+                target_clauses: scopes?.map(scope => ({ id: scope.id, text: scope.text.trim() })),
+                playbook: playbook.length > 0 ? playbook : undefined,
+            };
+
+            let fullProposedEdit = "";
+            let replacements: Record<string, string> = {};
+            let editTarget: string | null = null; // Clause the current edit replaces; null for a full rewrite
+            let strategy: NegotiationStrategy | undefined;
+            let isEditMode = false;
+            let hasShownMessage = false; // Track if we've completed showing the message
+
+            for await (const event of streamNegotiation(payload, { signal: controller.signal })) {
+                switch (event.type) {
+                    case 'strategy':
+                        // Comes first: shown as a plan card above the reply and saved with it
+                        strategy = event.strategy;
+                        updateReply({ strategy: event.strategy });
+                        break;
+                    case 'text_delta':
+                        agentResponse += event.content;
+                        // Update agent message in real-time
+                        updateReply({ text: agentResponse });
+                        break;
+                    case 'edit_start':
+                        // Message is complete, now we'll start showing edits
+                        if (!hasShownMessage) {
+                            hasShownMessage = true;
+                            // Wait a moment for user to see the message
+                            await new Promise(resolve => setTimeout(resolve, 1500));
+                            // NOW switch to contract tab to show real-time updates
+                            setActiveTab('contract');
+                        }
+                        isEditMode = true;
+                        if (event.target && scopes) {
+                            if (!scopes.some(scope => scope.id === event.target)) {
+                                logError('Negotiation Stream', `Edit for a clause that wasn't requested: ${event.target}`);
+                                isEditMode = false;
+                                break;
+                            }
+                            // Clause-scoped: later clauses add to the same proposal
+                            const isFirstClause = editTarget === null && Object.keys(replacements).length === 0;
+                            editTarget = event.target;
+                            replacements = { ...replacements, [event.target]: '' };
+                            const proposedText = spliceScopedEdits(contractText, scopes, replacements);
+                            if (isFirstClause) {
+                                setPendingRevision({ id: Date.now(), baseText: contractText, proposedText, isStreaming: true, scopes, strategy, flagIds });
+                            } else {
+                                setPendingRevision(prev => prev && { ...prev, proposedText, isStreaming: true });
+                            }
+                        } else {
+                            // Whole document; for a clause request the review checks what changed outside the clauses
+                            editTarget = null;
+                            replacements = {};
+                            fullProposedEdit = "";
+                            setPendingRevision({ id: Date.now(), baseText: contractText, proposedText: "", isStreaming: true, scopes, strategy, flagIds });
+                        }
+                        break;
+                    case 'edit_delta':
+                        if (!isEditMode) break;
+                        if (editTarget && scopes) {
+                            replacements[editTarget] += event.content;
+                            const proposedText = spliceScopedEdits(contractText, scopes, replacements);
+                            setPendingRevision(prev => prev && { ...prev, proposedText });
+                            break;
+                        }
+                        fullProposedEdit += event.content;
+                        // STREAM UPDATE: Show the proposal as it arrives; it's held for review, not applied
+                        setPendingRevision(prev => prev && { ...prev, proposedText: fullProposedEdit });
+                        break;
+                    case 'done':
+                        isEditMode = false;
+                        setPendingRevision(prev => prev && { ...prev, isStreaming: false });
+                        break;
+                    case 'error':
+                        if (event.source === 'server') {
+                            throw new ApiError(event.message, undefined, { code: 'stream_interrupted' });
+                        }
+                        // The raw line can hold contract text, so only its size is reported
+                        logError('Negotiation Stream', event.message, { lineLength: event.raw?.length ?? 0 });
+                        break;
+                }
+            }
+
+            return 'completed';
+        } catch (error) {
+            if (isAbortError(error)) {
+                // Keep the partial reply (and any streamed edits) and mark it as stopped
+                updateReply({ text: agentResponse || 'Stopped before a reply arrived.', stopped: true });
+                return 'stopped';
+            }
+
+            logError('Negotiation Processing', error);
+            const errorMsg = handleError(error, 'Negotiation', false);
+            setMessages(prev => [...prev, { role: 'agent', text: `❌ ${errorMsg}`, failed: true }]);
+            setChatError({ error: describeError(error), retry });
+            return 'failed';
+        } finally {
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+            }
+            // Stream ended (or was stopped) mid-edit: hand whatever arrived over for review
+            setPendingRevision(prev => {
+                if (!prev?.isStreaming) return prev;
+                return prev.proposedText ? { ...prev, isStreaming: false } : null;
+            });
+            setIsProcessing(false);
+        }
+    };
+
+    // Commit an approved revision to the contract
+    const commitRevision = (text: string) => {
+        setContractText(text);
+        updateContractContent(text, 'Accepted AI edit', 'ai-edit', pendingRevision?.strategy);
+        if (pendingRevision) finishClauses(pendingRevision.flagIds);
+        setPendingRevision(null);
+        showToast('✅ Changes applied to the contract.', 'success');
+    };
+
+    const discardRevision = () => {
+        setPendingRevision(null);
+        showToast('Proposed changes discarded.', 'info');
+    };
+
+    // Manual editing of the contract text
+    const startEditing = () => {
+        setDraftText(contractText);
+        setIsEditing(true);
+    };
+
+    const saveManualEdit = () => {
+        if (draftText !== contractText) {
+            setContractText(draftText);
+            updateContractContent(draftText, 'Manual edit', 'manual');
+            showToast('✅ Manual edit saved as a new version.', 'success');
+        }
+        setIsEditing(false);
+    };
+
+    // Stop the in-flight copilot reply
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    // Send custom chat message
+    const handleChatSend = async () => {
+        if (!chatInput.trim() || isProcessing || !confirmReplacePending()) return;
+
+        const message = chatInput.trim();
+        setMessages(prev => [...prev, { role: 'user', text: message }]);
+        setChatInput("");
+        const run = async () => {
+            await processNegotiation([], message, run);
+        };
+        await run();
+    };
+
+    // Download contract as PDF
+    const downloadPDF = () => {
+        const doc = new jsPDF();
+        const pageWidth = doc.internal.pageSize.getWidth();
+        const pageHeight = doc.internal.pageSize.getHeight();
+        const margin = 20;
+        const maxWidth = pageWidth - 2 * margin;
+
+        // Add title
+        doc.setFontSize(16);
+        doc.setFont('helvetica', 'bold');
+        doc.text('Contract Document', margin, margin);
+
+        // Add date
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'normal');
+        doc.text(`Generated: ${new Date().toLocaleDateString()} `, margin, margin + 10);
+
+        // Add contract content
+        doc.setFontSize(11);
+        doc.setFont('helvetica', 'normal');
+        const lines = doc.splitTextToSize(contractText, maxWidth);
+
+        let yPosition = margin + 20;
+        const lineHeight = 7;
+
+        for (let i = 0; i < lines.length; i++) {
+            if (yPosition + lineHeight > pageHeight - margin) {
+                doc.addPage();
+                yPosition = margin;
+            }
+            doc.text(lines[i], margin, yPosition);
+            yPosition += lineHeight;
+        }
+
+        // Download
+        doc.save('contract.pdf');
+    };
+
+    // Re-analyze current contract
+    const handleReanalyze = async () => {
+        if (!contractText || isReanalyzing) return;
+
+        if (!contractText.trim()) {
+            showToast('Contract text is empty. Cannot re-analyze.', 'warning');
+            return;
+        }
+
+        setIsReanalyzing(true);
+        showToast('🔄 Re-analyzing with fresh AI insights...', 'info');
+
+        try {
+            // Create a new File object from contract text
+            const blob = new Blob([contractText], { type: 'text/plain' });
+            const fileToAnalyze = new File([blob], 'contract.txt', { type: 'text/plain' });
+
+            // Use the same analyzeContract function as the home page
+            const result = await analyzeContract(fileToAnalyze, { jurisdiction });
+
+            if (!result) {
+                throw new Error('Analysis returned no results');
+            }
+
+            // Snapshot the analysed text and update Zustand store with new analysis
+            const { setAnalysis } = useContractStore.getState();
+            updateContractContent(contractText, `Re-analysis (score ${result.total_health_score})`, 'reanalysis');
+            setAnalysis(result);
+
+            showToast('✅ Fresh analysis ready! Redirecting to your report...', 'success');
+
+            // Small delay to show success message
+            setTimeout(() => {
+                router.push(`/report/${contractId}`);
+            }, 500);
+        } catch (error) {
+            logError('Re-analysis Failed', error, {
+                jurisdiction,
+                textLength: contractText.length
+            });
+            handleError(error, 'Re-analysis');
+        } finally {
+            setIsReanalyzing(false);
+        }
+    };
+
+    // Get risk color
+    const getRiskColor = (level: string) => {
+        switch (level) {
+            case 'high': return 'bg-red-500';
+            case 'medium': return 'bg-yellow-500';
+            case 'low': return 'bg-green-500';
+            default: return 'bg-gray-500';
+        }
+    };
+
+    // Contract outline for navigation
+    const outline = useMemo(() => parseClauses(contractText), [contractText]);
+
+    const jumpToSection = (sectionId: string) => {
+        setActiveSectionId(sectionId);
+        documentRef.current
+            ?.querySelector(`[data-clause-id="${sectionId}"]`)
+            ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    };
+
+    const chatErrorNotice = chatError && !isProcessing && (
+        <ErrorNotice error={chatError.error} onAction={{ retry: chatError.retry }} onDismiss={() => setChatError(null)} className="text-xs" />
+    );
+
+    // Explanations are shared with the report through the workspace
+    const renderExplanation = (clause: ClauseItem) => {
+        const section = clause.sectionId ? findClause(outline, clause.sectionId) : null;
+        return (
+            <RiskExplanation
+                contractId={contractId}
+                flag={{ id: clause.id, analysis: clause.text, original_text: clause.original_text }}
+                contractContext={`Contract Type: ${analysisResults?.contract_type ?? 'Unknown'}. Summary: ${analysisResults?.plain_english_summary ?? ''}`}
+                clauseText={section ? getClauseText(contractText, section) : undefined}
+                compact
+            />
+        );
+    };
+
+    // Where each flagged clause's quote sits in the contract
+    const anchoring = useMemo(() => anchorFlags(contractText, clauses), [contractText, clauses]);
+    const unanchoredClauses = clauses.filter(c => anchoring[c.id] && anchoring[c.id].anchors.length === 0);
+
+    const highlightClass = (clause: ClauseItem) => {
+        if (selectedClauseIds.includes(clause.id)) return 'bg-blue-500/40 border-2 border-blue-400';
+        if (clause.riskLevel === 'high') return 'bg-red-500/20';
+        if (clause.riskLevel === 'medium') return 'bg-yellow-500/20';
+        return 'bg-green-500/20';
+    };
+
+    const highlightedText = () => {
+        const ranges = clauses.flatMap(clause =>
+            (anchoring[clause.id]?.anchors ?? []).map(anchor => ({ id: clause.id, ...anchor }))
+        );
+        const confidenceOf = (id: string) => anchoring[id]?.confidence ?? 1;
+        // Split at clause starts too, so jump-to-clause markers land in the right place
+        const sectionStarts = flattenClauses(outline).map(c => c.start);
+        const anchorsAt = new Map(flattenClauses(outline).map(c => [c.start, c.id]));
+        const segments = buildHighlightSegments(contractText.length, ranges, sectionStarts);
+
+        return (
+            <>
+                {segments.map((segment) => {
+                    const text = contractText.substring(segment.start, segment.end);
+                    const sectionId = anchorsAt.get(segment.start);
+                    const marker = sectionId && <span key={`anchor-${sectionId}`} data-clause-id={sectionId} className="scroll-mt-6" />;
+                    if (segment.ids.length === 0) {
+                        return marker ? [marker, text] : text;
+                    }
+
+                    // The innermost highlight decides the colour; overlaps get an outline
+                    const covering = segment.ids.map(id => clauses.find(c => c.id === id)!).filter(Boolean);
+                    const selected = covering.find(c => selectedClauseIds.includes(c.id));
+                    const primary = selected ?? covering[covering.length - 1];
+                    const lowestConfidence = Math.min(...segment.ids.map(confidenceOf));
+                    const title = covering
+                        .map(c => confidenceOf(c.id) < 1 ? `${c.title} (approximate match, ${Math.round(confidenceOf(c.id) * 100)}%)` : c.title)
+                        .join('\n');
+
+                    return [
+                        marker,
+                        <span
+                            key={`hl-${segment.start}`}
+                            title={title}
+                            className={`${highlightClass(primary)} text-white rounded transition-all ${covering.length > 1 ? 'ring-1 ring-white/40' : ''} ${lowestConfidence < 1 ? 'underline decoration-dotted decoration-white/50' : ''}`}
+                        >
+                            {text}
+                        </span>,
+                    ];
+                })}
+            </>
+        );
+    };
+
+    // Flags whose quote couldn't be found are listed instead of silently dropped
+    const unanchoredNotice = unanchoredClauses.length > 0 && (
+        <details className="mb-6 p-4 rounded-lg bg-white/5 border border-white/10 text-xs">
+            <summary className="cursor-pointer text-white/70 font-medium">
+                {unanchoredClauses.length} flagged clause{unanchoredClauses.length === 1 ? '' : 's'} couldn&apos;t be located in the text
+            </summary>
+            <ul className="mt-3 space-y-3">
+                {unanchoredClauses.map((clause) => (
+                    <li key={clause.id} className="flex items-start gap-3">
+                        <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${clause.riskLevel === 'high' ? 'bg-red-500' : 'bg-yellow-500'}`} />
+                        <div className="min-w-0">
+                            <p className="text-white/80">{clause.title}</p>
+                            {clause.original_text && clause.original_text !== 'N/A' && (
+                                <p className="text-white/40 italic line-clamp-2">&ldquo;{clause.original_text}&rdquo;</p>
+                            )}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </details>
+    );
+
+
+    const manualEditor = isEditing && !pendingRevision && (
+        <textarea
+            value={draftText}
+            onChange={(e) => setDraftText(e.target.value)}
+            className="w-full min-h-[60vh] bg-white/5 border border-white/10 rounded-lg p-4 font-serif text-sm leading-[1.8] text-white/80 focus:outline-none focus:border-[#d4af37]/50 resize-y"
+        />
+    );
+
+    const revisionReview = pendingRevision && (
+        <RevisionReview
+            key={pendingRevision.id}
+            baseText={pendingRevision.baseText}
+            proposedText={pendingRevision.proposedText}
+            isStreaming={pendingRevision.isStreaming}
+            scopeRanges={pendingRevision.scopes}
+            onReplaceProposal={(text) => setPendingRevision(prev => prev && { ...prev, id: Date.now(), proposedText: text })}
+            onCommit={commitRevision}
+            onDiscard={discardRevision}
+        />
+    );
+
+    const handleExportChat = () => {
+        const name = contract?.name ?? 'contract';
+        downloadBlob(new Blob([chatToMarkdown(messages, name)], { type: 'text/markdown' }), withFileSuffix(name, 'chat', 'md'));
+    };
+
+    const exportChatButton = messages.length > 0 && (
+        <button
+            onClick={handleExportChat}
+            disabled={isProcessing}
+            title="Download this conversation as Markdown"
+            className="text-white/50 hover:text-white p-2 hover:bg-white/10 rounded transition-colors disabled:opacity-40 flex items-center gap-1 text-xs">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"></path>
+            </svg>
+            Export
+        </button>
+    );
+
+    // Copilot expansion state
+    const [isCopilotExpanded, setIsCopilotExpanded] = useState(false);
+
+    return (
+        <>
+            {/* Desktop View (Two Equal Panels + Bottom Copilot) - hidden on mobile/tablet */}
+            <div className="hidden lg:flex h-screen bg-[#0a0f1c] text-white overflow-hidden flex-col">
+                {/* Top Header */}
+                <div className="w-full bg-[#13151f] border-b border-white/20 p-4 flex items-center justify-between flex-shrink-0">
+                    <div className="flex items-center gap-4">
+                        <img src="/logo.png" alt="LegalSay" className="w-10 h-10" />
+                        <div className="h-6 w-px bg-white/20"></div>
+                        <h1 className="text-lg font-semibold text-white">Playground</h1>
+                    </div>
+                    <button
+                        onClick={() => router.push('/contracts')}
+                        className="px-4 py-2 bg-white/5 hover:bg-white/10 text-white/70 hover:text-white rounded-lg text-sm font-medium transition-all flex items-center gap-2"
+                    >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6"></path>
+                        </svg>
+                        Dashboard
+                    </button>
+                </div>
+
+                {/* Top Section - Two Equal Panels */}
+                <div className="flex flex-1 overflow-hidden">
+                    {/* Left Panel - Flagged Clauses (50%) */}
+                    <div className="w-1/2 bg-[#13151f] border-r border-white/20 flex flex-col">
+                        <div className="p-4  border-white/20 flex-shrink-0 flex items-start justify-between gap-3">
+                            <div>
+                                <h2 className="text-base font-semibold text-white mb-2">{leftPanel === 'flags' ? 'Flagged Clauses' : 'Outline'}</h2>
+                                <p className="text-xs text-white/50">
+                                    {leftPanel === 'flags'
+                                        ? `${clauses.length} total • ${selectedClauseIds.length} selected`
+                                        : `${flattenClauses(outline).length} sections`}
+                                </p>
+                            </div>
+                            <div className="flex p-1 bg-white/5 rounded-lg">
+                                {(['flags', 'outline'] as const).map((panel) => (
+                                    <button
+                                        key={panel}
+                                        onClick={() => setLeftPanel(panel)}
+                                        className={`px-3 py-1 rounded text-xs transition-all ${leftPanel === panel ? 'bg-[#d4af37]/20 text-[#d4af37]' : 'text-white/50 hover:text-white'}`}
+                                    >
+                                        {panel === 'flags' ? 'Flags' : 'Outline'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {leftPanel === 'outline' && (
+                            <div className="flex-1 overflow-y-auto p-4">
+                                <ClauseOutline clauses={outline} flags={flags} activeClauseId={activeSectionId} onSelect={jumpToSection} />
+                            </div>
+                        )}
+
+                        <div className={`flex-1 overflow-y-auto p-4 scrollbar-hide ${leftPanel === 'flags' ? '' : 'hidden'}`} style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
+                            {clauses.map((clause) => (
+                                <div key={clause.id} className="mb-4 w-full">
+                                    <button
+                                        onClick={() => toggleClauseSelection(clause.id)}
+                                        className={`w-full text-left p-5 rounded-xl transition-all duration-200 border-2 ${selectedClauseIds.includes(clause.id)
+                                            ? 'bg-gradient-to-br from-red-500/20 to-red-600/10 border-red-500/60 shadow-lg shadow-red-500/20'
+                                            : 'bg-[#1a1d2e] border-white/10 hover:border-white/20 hover:bg-[#1e2132]'
+                                            }`}
+                                    >
+                                        <div className="flex items-start gap-4">
+                                            {/* Risk Indicator */}
+                                            <div className="mt-1 flex-shrink-0">
+                                                <div className={`w-2 h-2 rounded-full ${clause.riskLevel === 'high' ? 'bg-red-500' :
+                                                    clause.riskLevel === 'medium' ? 'bg-yellow-500' : 'bg-green-500'
+                                                    }`} />
+                                            </div>
+
+                                            {/* Content */}
+                                            <div className="flex-1 min-w-0">
+                                                <div className="flex items-start justify-between gap-3 mb-2">
+                                                    <h3 className="text-sm font-semibold text-white truncate">{clause.title}</h3>
+                                                    {selectedClauseIds.includes(clause.id) && (
+                                                        <svg className="w-5 h-5 text-red-500 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                                                            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd"></path>
+                                                        </svg>
+                                                    )}
+                                                </div>
+
+                                                <p className="text-xs text-white/70 leading-relaxed line-clamp-2 mb-2">
+                                                    {clause.text}
+                                                </p>
+
+                                                {/* Nested in the card button, so not a <button> itself */}
+                                                {clause.sectionId && findClause(outline, clause.sectionId) && (
+                                                    <span
+                                                        role="button"
+                                                        tabIndex={0}
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            jumpToSection(clause.sectionId!);
+                                                        }}
+                                                        onKeyDown={(e) => {
+                                                            if (e.key === 'Enter') {
+                                                                e.stopPropagation();
+                                                                jumpToSection(clause.sectionId!);
+                                                            }
+                                                        }}
+                                                        className="inline-block text-[11px] text-white/50 hover:text-[#d4af37] transition-colors"
+                                                    >
+                                                        § {formatClauseLabel(findClause(outline, clause.sectionId)!)} →
+                                                    </span>
+                                                )}
+                                                {anchoring[clause.id]?.anchors.length === 0 && (
+                                                    <span className="ml-2 inline-block text-[11px] text-white/40 italic">Not found in text</span>
+                                                )}
+                                                {anchoring[clause.id]?.anchors.length > 0 && anchoring[clause.id].confidence < 1 && (
+                                                    <span className="ml-2 inline-block text-[11px] text-white/40 italic">
+                                                        ~{Math.round(anchoring[clause.id].confidence * 100)}% match
+                                                    </span>
+                                                )}
+
+                                                {/* Original Text Expandable Section */}
+                                                {clause.original_text && clause.original_text !== "N/A" && (
+                                                    <details className="mt-3 group">
+                                                        <summary className="text-xs text-[#d4af37] cursor-pointer hover:text-[#e5bd3d] font-medium flex items-center gap-2 transition-colors">
+                                                            <svg className="w-3 h-3 transition-transform group-open:rotate-90" fill="currentColor" viewBox="0 0 20 20">
+                                                                <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                                                            </svg>
+                                                            View Original Clause Text
+                                                        </summary>
+                                                        <div className="mt-3 p-4 bg-black/20 rounded-lg border-l-4 border-[#d4af37]/60">
+                                                            <p className="text-xs text-white/80 leading-relaxed whitespace-pre-wrap">
+                                                                {clause.original_text}
+                                                            </p>
+                                                        </div>
+                                                    </details>
+                                                )}
+                                            </div>
+                                        </div>
+                                    </button>
+                                    <div className="mt-2 px-1">{renderExplanation(clause)}</div>
+                                </div>
+                            ))}
+
+                        </div>
+                    </div>
+
+                    {/* Right Panel - Editable Contract View (50%) */}
+                    <div className="w-1/2 bg-[#0a0f1c] flex flex-col">
+                        <div className="p-4  border-white/20 flex items-center justify-between flex-shrink-0">
+                            <h2 className="text-base font-semibold text-white">Editable Contract View</h2>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={undo}
+                                    disabled={versionIndex <= 0 || isEditing || !!pendingRevision}
+                                    title="Undo"
+                                    className="px-2 py-1.5 bg-white/5 hover:bg-white/10 text-white/70 rounded text-xs transition-all disabled:opacity-40"
+                                >
+                                    ↶
+                                </button>
+                                <button
+                                    onClick={redo}
+                                    disabled={versionIndex >= versions.length - 1 || isEditing || !!pendingRevision}
+                                    title="Redo"
+                                    className="px-2 py-1.5 bg-white/5 hover:bg-white/10 text-white/70 rounded text-xs transition-all disabled:opacity-40"
+                                >
+                                    ↷
+                                </button>
+                                <button
+                                    onClick={() => setIsHistoryOpen(true)}
+                                    className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-white/70 rounded text-xs transition-all"
+                                >
+                                    History ({versions.length})
+                                </button>
+                                {isEditing ? (
+                                    <>
+                                        <button
+                                            onClick={() => setIsEditing(false)}
+                                            className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-white/70 rounded text-xs transition-all"
+                                        >
+                                            Cancel
+                                        </button>
+                                        <button
+                                            onClick={saveManualEdit}
+                                            className="px-3 py-1.5 bg-green-500/20 hover:bg-green-500/30 text-green-400 rounded text-xs transition-all"
+                                        >
+                                            Save
+                                        </button>
+                                    </>
+                                ) : (
+                                    <button
+                                        onClick={startEditing}
+                                        disabled={!!pendingRevision}
+                                        className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-white/70 rounded text-xs transition-all disabled:opacity-40"
+                                    >
+                                        Edit
+                                    </button>
+                                )}
+                                <button
+                                    onClick={downloadPDF}
+                                    className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-white/70 rounded text-xs transition-all"
+                                >
+                                    Download
+                                </button>
+                                <button
+                                    onClick={() => setIsLetterOpen(true)}
+                                    disabled={!!pendingRevision}
+                                    title="Generate counterparty letter"
+                                    className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-white/70 rounded text-xs transition-all disabled:opacity-40"
+                                >
+                                    Letter
+                                </button>
+                                <button
+                                    onClick={handleReanalyze}
+                                    disabled={isReanalyzing}
+                                    className="px-3 py-1.5 bg-[#d4af37]/20 hover:bg-[#d4af37]/30 text-[#d4af37] rounded text-xs transition-all disabled:opacity-50"
+                                >
+                                    Re-analyze
+                                </button>
+                            </div>
+                        </div>
+
+                        <div ref={documentRef} className="flex-1 overflow-y-auto p-6 scrollbar-hide" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
+                            <div className="max-w-4xl mx-auto">
+                                {revisionReview || manualEditor || (
+                                    <>
+                                        {unanchoredNotice}
+                                        <div className="font-serif text-sm leading-[2.2] text-white/70 whitespace-pre-wrap" style={{ wordSpacing: '0.1em' }}>
+                                            {highlightedText()}
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Bottom Floating Copilot Agent */}
+                <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-50">
+                    <button
+                        onClick={() => setIsCopilotExpanded(!isCopilotExpanded)}
+                        className="bg-[#d4af37] hover:bg-[#e5bd3d] text-[#0a0f1c] px-6 py-3 rounded-lg shadow-lg flex items-center gap-2 transition-all"
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"></path>
+                        </svg>
+                        <span className="font-medium">Negotiator Agent</span>
+                        {selectedClauseIds.length > 0 && (
+                            <span className="bg-black/20 px-2 py-0.5 rounded-full text-xs">{selectedClauseIds.length}</span>
+                        )}
+                        <span className="text-sm">Expand</span>
+                    </button>
+                </div>
+
+                {/* Expanded Copilot Panel */}
+                {isCopilotExpanded && (
+                    <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-[600px] bg-[#13151f] border-t border-x border-white/20 shadow-2xl z-50 flex flex-col max-h-[50vh] animate-in slide-in-from-bottom duration-300">
+                        <div className="p-4 border-b border-white/20 flex items-center justify-between flex-shrink-0">
+                            <h2 className="text-base font-semibold text-white flex items-center gap-2">
+                                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"></path>
+                                </svg>
+                                Negotiator Agent
+                            </h2>
+                            <div className="flex items-center gap-1">
+                                {exportChatButton}
+                                <button
+                                    onClick={() => setIsCopilotExpanded(false)}
+                                    className="text-white/50 hover:text-white p-2 hover:bg-white/10 rounded transition-colors">
+                                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+                                    </svg>
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="flex-1 overflow-y-auto p-4 space-y-3 scrollbar-hide" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
+                            {messages.length === 0 ? (
+                                <p className="text-xs text-white/40 text-center italic">Select clauses to begin negotiation...</p>
+                            ) : (
+                                messages.map((msg, idx) => (
+                                    <div key={idx} className={`flex flex-col gap-2 ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                                        {msg.strategy && <StrategyCard strategy={msg.strategy} defaultOpen={idx >= messages.length - 2} compact />}
+                                        {(msg.text || !msg.strategy) && (
+                                            <div className={`max - w - [85 %] p - 3 rounded - xl text - xs leading - relaxed ${msg.role === 'user'
+                                                ? 'bg-[#3b82f6] text-white rounded-br-none'
+                                                : 'bg-white/5 text-white/90 rounded-bl-none'
+                                                } `}>
+                                                {msg.text}
+                                                {msg.stopped && (
+                                                    <span className="block mt-2 text-[10px] uppercase tracking-widest text-white/40">⏹ Stopped</span>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                ))
+                            )}
+                            {chatErrorNotice}
+                            <div ref={chatEndRef} />
+                        </div>
+
+                        {selectedClauseIds.length > 0 && (
+                            <div className="px-4 py-3 border-t border-white/20 flex-shrink-0">
+                                <button
+                                    onClick={selectedClauseIds.length === 1 ? () => processClause(selectedClauseIds[0]) : processAllClauses}
+                                    disabled={isProcessing}
+                                    className="w-full bg-[#3b82f6] hover:bg-[#2563eb] text-white py-3 rounded-lg text-sm font-semibold transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+                                >
+                                    {isProcessing ? (<>Processing...</>) : (<>Negotiate {selectedClauseIds.length === 1 ? 'Clause' : `${selectedClauseIds.length} Clauses`}</>)}
+                                </button>
+                            </div>
+                        )}
+
+                        <div className="p-4 border-t border-white/20 flex-shrink-0">
+                            <div className="flex gap-2">
+                                <textarea
+                                    value={chatInput}
+                                    onChange={(e) => setChatInput(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter' && !e.shiftKey) {
+                                            e.preventDefault();
+                                            handleChatSend();
+                                        }
+                                    }}
+                                    placeholder="Add custom instructions..."
+                                    className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs focus:outline-none focus:border-[#3b82f6] text-white placeholder:text-white/30 resize-none"
+                                    rows={2}
+                                    disabled={isProcessing}
+                                />
+                                {isProcessing ? (
+                                    <button
+                                        onClick={handleStop}
+                                        className="bg-red-500/20 hover:bg-red-500/30 text-red-400 px-3 py-2 rounded-lg text-xs font-semibold transition-all h-fit"
+                                    >
+                                        Stop
+                                    </button>
+                                ) : (
+                                    <button
+                                        onClick={handleChatSend}
+                                        disabled={!chatInput.trim()}
+                                        className="bg-[#3b82f6] hover:bg-[#2563eb] text-white p-2 rounded-lg transition-all disabled:opacity-50 h-fit"
+                                    >
+                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"></path>
+                                        </svg>
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {isHistoryOpen && <VersionHistory onClose={() => setIsHistoryOpen(false)} />}
+            {isLetterOpen && <LetterComposer contractId={contractId} onClose={() => setIsLetterOpen(false)} />}
+
+            {/* Mobile/Tablet View - visible on md and below */}
+            <div className="lg:hidden fixed inset-0 flex flex-col bg-[#0a0f1c] text-white">
+                {/* Header */}
+                <div className="p-4 border-b border-white/10 flex-shrink-0">
+                    <div className="flex items-center gap-3">
+                        <img src="/logo.png" alt="LegalSay" className="w-10 h-10" />
+                        <div className="flex-1">
+                            <h2 className="text-base font-bold text-white">Negotiation Playground</h2>
+                            <p className="text-[10px] text-white/40">
+                                {clauses.length} Clauses • {selectedClauseIds.length} Selected
+                            </p>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Tab Content */}
+                <div className="flex-1 overflow-hidden">
+                    {/* Clauses Tab */}
+                    {activeTab === 'clauses' && (
+                        <div className="h-full overflow-y-auto p-4">
+                            {clauses.map((clause) => (
+                                <div key={clause.id} className="mb-4 w-full">
+                                    <button
+                                        onClick={() => toggleClauseSelection(clause.id)}
+                                        className={`w-full p-5 rounded-xl transition-all duration-200 border-2 ${selectedClauseIds.includes(clause.id)
+                                            ? 'bg-gradient-to-br from-red-500/20 to-red-600/10 border-red-500/60 shadow-lg shadow-red-500/20'
+                                            : 'bg-[#1a1d2e] border-white/10 hover:border-white/20'
+                                            }`}
+                                    >
+                                        <div className="flex items-start gap-4">
+                                            {/* Risk Indicator */}
+                                            <div className="mt-1 flex-shrink-0">
+                                                <div className={`w-2 h-2 rounded-full ${getRiskColor(clause.riskLevel)}`} />
+                                            </div>
+
+                                            {/* Content */}
+                                            <div className="flex-1 min-w-0 text-left">
+                                                <div className="flex items-start justify-between gap-2 mb-2">
+                                                    <h3 className="text-sm font-semibold text-white line-clamp-2">{clause.title}</h3>
+                                                    {selectedClauseIds.includes(clause.id) && (
+                                                        <svg className="w-5 h-5 text-red-500 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                                                            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd"></path>
+                                                        </svg>
+                                                    )}
+                                                </div>
+                                                <p className="text-xs text-white/70 leading-relaxed line-clamp-2">
+                                                    {clause.text}
+                                                </p>
+                                            </div>
+                                        </div>
+                                    </button>
+
+                                    {/* Individual Negotiate Button */}
+                                    <button
+                                        onClick={() => toggleClauseSelection(clause.id)}
+                                        className={`w-full mt-3 py-3 px-4 rounded-xl text-sm font-semibold transition-all duration-200 flex items-center justify-center gap-2 border-2 ${selectedClauseIds.includes(clause.id)
+                                            ? 'bg-gradient-to-r from-[#d4af37] to-[#e5bd3d] text-[#0a0f1c] border-[#d4af37] shadow-lg shadow-[#d4af37]/30'
+                                            : 'bg-blue-500/10 border-blue-500/30 text-blue-400 hover:bg-blue-500/20 hover:border-blue-500/50'
+                                            }`}
+                                    >
+                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z"></path>
+                                        </svg>
+                                        {selectedClauseIds.includes(clause.id) ? 'Selected' : 'Negotiate'}
+                                    </button>
+                                    <div className="mt-2 px-1">{renderExplanation(clause)}</div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Contract Tab */}
+                    {activeTab === 'contract' && (
+                        <div className="h-full flex flex-col">
+                            <div className="flex-1 overflow-y-auto p-4">
+                                {revisionReview || manualEditor || (
+                                    <>
+                                        {unanchoredNotice}
+                                        <div className="font-serif text-sm leading-[1.8] text-white/70 whitespace-pre-wrap">
+                                            {highlightedText()}
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+
+                            {/* Version Buttons */}
+                            <div className="px-4 pt-3 border-t border-white/10 flex gap-2">
+                                <button
+                                    onClick={undo}
+                                    disabled={versionIndex <= 0 || isEditing || !!pendingRevision}
+                                    className="px-4 py-2 bg-white/5 text-white/70 rounded-lg text-sm transition-all disabled:opacity-40"
+                                >
+                                    ↶
+                                </button>
+                                <button
+                                    onClick={redo}
+                                    disabled={versionIndex >= versions.length - 1 || isEditing || !!pendingRevision}
+                                    className="px-4 py-2 bg-white/5 text-white/70 rounded-lg text-sm transition-all disabled:opacity-40"
+                                >
+                                    ↷
+                                </button>
+                                <button
+                                    onClick={() => setIsHistoryOpen(true)}
+                                    className="flex-1 px-4 py-2 bg-white/5 text-white/70 rounded-lg text-sm transition-all"
+                                >
+                                    History ({versions.length})
+                                </button>
+                                <button
+                                    onClick={isEditing ? saveManualEdit : startEditing}
+                                    disabled={!!pendingRevision}
+                                    className={`flex-1 px-4 py-2 rounded-lg text-sm transition-all disabled:opacity-40 ${isEditing ? 'bg-green-500/20 text-green-400' : 'bg-white/5 text-white/70'}`}
+                                >
+                                    {isEditing ? 'Save Edit' : 'Edit'}
+                                </button>
+                            </div>
+
+                            {/* Action Buttons */}
+                            <div className="p-4 flex gap-2">
+                                <button
+                                    onClick={downloadPDF}
+                                    className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-white/5 hover:bg-white/10 text-white/70 rounded-lg text-sm font-medium transition-all"
+                                >
+                                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path>
+                                    </svg>
+                                    Download PDF
+                                </button>
+                                <button
+                                    onClick={() => setIsLetterOpen(true)}
+                                    disabled={!!pendingRevision}
+                                    className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-white/5 hover:bg-white/10 text-white/70 rounded-lg text-sm font-medium transition-all disabled:opacity-40"
+                                >
+                                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"></path>
+                                    </svg>
+                                    Letter
+                                </button>
+                                <button
+                                    onClick={handleReanalyze}
+                                    disabled={isReanalyzing}
+                                    className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-[#d4af37]/20 hover:bg-[#d4af37]/30 text-[#d4af37] rounded-lg text-sm font-medium transition-all disabled:opacity-50"
+                                >
+                                    {isReanalyzing ? (
+                                        <>
+                                            <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                            </svg>
+                                            Analyzing...
+                                        </>
+                                    ) : (
+                                        <>
+                                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"></path>
+                                            </svg>
+                                            Re-analyze
+                                        </>
+                                    )}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Copilot Tab */}
+                    {activeTab === 'copilot' && (
+                        <div className="h-full flex flex-col">
+                            {messages.length > 0 && (
+                                <div className="flex justify-end px-2 pt-2 flex-shrink-0">{exportChatButton}</div>
+                            )}
+                            {/* Messages */}
+                            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                                {messages.length === 0 ? (
+                                    <p className="text-xs text-white/40 text-center italic">Select clauses or send a message...</p>
+                                ) : (
+                                    messages.map((msg, idx) => (
+                                        <div key={idx} className={`flex flex-col gap-2 ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                                            {msg.strategy && <StrategyCard strategy={msg.strategy} defaultOpen={idx >= messages.length - 2} />}
+                                            {(msg.text || !msg.strategy) && (
+                                                <div className={`max - w - [85 %] p - 3 rounded - xl text - sm leading - relaxed ${msg.role === 'user'
+                                                    ? 'bg-[#d4af37] text-[#0a0f1c] rounded-br-none'
+                                                    : 'bg-white/5 text-white/90 rounded-bl-none'
+                                                    } `}>
+                                                    {msg.text}
+                                                    {msg.stopped && (
+                                                        <span className="block mt-2 text-[10px] uppercase tracking-widest text-white/40">⏹ Stopped</span>
+                                                    )}
+                                                </div>
+                                            )}
+                                        </div>
+                                    ))
+                                )}
+                                {chatErrorNotice}
+                                <div ref={chatEndRef} />
+                            </div>
+
+                            {/* Proceed Button */}
+                            {selectedClauseIds.length > 0 && (
+                                <div className="px-4 py-3 border-t border-white/10">
+                                    <button
+                                        onClick={selectedClauseIds.length === 1 ? () => processClause(selectedClauseIds[0]) : processAllClauses}
+                                        disabled={isProcessing}
+                                        className="w-full bg-blue-500 text-white py-4 rounded-lg text-base font-semibold hover:bg-blue-600 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+                                    >
+                                        {isProcessing ? (
+                                            <>
+                                                <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                                </svg>
+                                                Processing...
+                                            </>
+                                        ) : (
+                                            <>
+                                                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z"></path>
+                                                </svg>
+                                                {selectedClauseIds.length === 1 ? 'Proceed' : `Proceed with All(${selectedClauseIds.length})`}
+                                            </>
+                                        )}
+                                    </button>
+                                </div>
+                            )}
+
+                            {/* Input */}
+                            <div className="p-4 border-t border-white/10 bg-[#0a0f1c]">
+                                <div className="flex gap-2">
+                                    <textarea
+                                        value={chatInput}
+                                        onChange={(e) => setChatInput(e.target.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter' && !e.shiftKey) {
+                                                e.preventDefault();
+                                                handleChatSend();
+                                            }
+                                        }}
+                                        placeholder="Optional custom instructions..."
+                                        className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-[#d4af37]/50 text-white placeholder:text-white/30 resize-none"
+                                        rows={3}
+                                        disabled={isProcessing}
+                                    />
+                                    {isProcessing ? (
+                                        <button
+                                            onClick={handleStop}
+                                            className="bg-red-500/20 text-red-400 px-4 py-3 rounded-lg text-sm font-semibold hover:bg-red-500/30 transition-all h-fit"
+                                        >
+                                            Stop
+                                        </button>
+                                    ) : (
+                                        <button
+                                            onClick={handleChatSend}
+                                            disabled={!chatInput.trim()}
+                                            className="bg-[#d4af37] text-[#0a0f1c] p-3 rounded-lg hover:bg-[#e5bd3d] transition-all disabled:opacity-50 h-fit"
+                                        >
+                                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8"></path>
+                                            </svg>
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {/* Bottom Tab Navigation */}
+                <div className="border-t border-white/10 bg-[#13151f] flex-shrink-0">
+                    <div className="flex items-center justify-around">
+                        <button
+                            onClick={() => setActiveTab('clauses')}
+                            className={`flex - 1 flex flex - col items - center gap - 1 py - 3 transition - colors ${activeTab === 'clauses' ? 'text-[#d4af37]' : 'text-white/40'
+                                } `}
+                        >
+                            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"></path>
+                            </svg>
+                            <span className="text-xs font-semibold">Clauses</span>
+                        </button>
+
+                        <button
+                            onClick={() => setActiveTab('contract')}
+                            className={`flex - 1 flex flex - col items - center gap - 1 py - 3 transition - colors ${activeTab === 'contract' ? 'text-[#d4af37]' : 'text-white/40'
+                                } `}
+                        >
+                            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path>
+                            </svg>
+                            <span className="text-xs font-semibold">Contract</span>
+                        </button>
+
+                        <button
+                            onClick={() => setActiveTab('copilot')}
+                            className={`flex - 1 flex flex - col items - center gap - 1 py - 3 transition - colors relative ${activeTab === 'copilot' ? 'text-[#d4af37]' : 'text-white/40'
+                                } `}
+                        >
+                            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"></path>
+                            </svg>
+                            <span className="text-xs font-semibold">Copilot</span>
+                            {selectedClauseIds.length > 0 && (
+                                <div className="absolute top-1 right-1/4 bg-red-500 text-white text-[10px] font-bold rounded-full w-5 h-5 flex items-center justify-center">
+                                    {selectedClauseIds.length}
+                                </div>
+                            )}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </>
+    );
+}
@@ -1,24 +1,47 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { analyzeContract, extractText } from '@/lib/api';
+import { analyzeContract, extractText, RetryInfo } from '@/lib/api';
 import { useContractStore } from '@/lib/contract-store';
-import { cleanPdfText } from '@/lib/textUtils';
+import { normalizeContractText } from '@/lib/textUtils';
 import Header from '@/components/Header';
-import { handleError, logError } from '@/lib/errorHandler';
+import { ApiError, describeError, ErrorDescription, handleError, isAbortError, logError } from '@/lib/errorHandler';
 import { showToast } from '@/components/Toast';
+import JurisdictionPicker from '@/components/JurisdictionPicker';
+import ErrorNotice from '@/components/ErrorNotice';
+import { DEFAULT_JURISDICTION, getJurisdictionMismatch } from '@/lib/jurisdictions';
+
+type AnalysisStage = 'uploading' | 'extracting' | 'analyzing';
+
+const STAGES: Array<{ key: AnalysisStage; label: string }> = [
+  { key: 'uploading', label: 'Uploading' },
+  { key: 'extracting', label: 'Extracting text' },
+  { key: 'analyzing', label: 'Analysing' },
+];
 
 export default function Home() {
   const router = useRouter();
   const [activeTab, setActiveTab] = useState<'upload' | 'text'>('upload');
   const [file, setFile] = useState<File | null>(null);
   const [text, setText] = useState('');
+  const [jurisdiction, setJurisdiction] = useState(DEFAULT_JURISDICTION);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [stage, setStage] = useState<AnalysisStage | null>(null);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  // Shown under the stages while a request is queued offline or being retried
+  const [connectionNote, setConnectionNote] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorDescription | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Cancel any in-flight analysis when leaving the page
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   // Zustand store
-  const { setContract, setAnalysis } = useContractStore();
+  const { createContract, setAnalysis } = useContractStore();
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -27,65 +50,127 @@ export default function Home() {
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleAnalyze = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
     setError(null);
+    setUploadProgress(0);
+    setConnectionNote(null);
+
+    // Requests report when they wait for the connection or retry; the next success clears the note
+    const onQueued = () => setConnectionNote('Waiting for a connection. The analysis will resume automatically.');
+    const onRetry = ({ attempt, reason }: RetryInfo) => setConnectionNote(`Server hiccup (${reason}), retrying (attempt ${attempt + 1})…`);
 
     try {
       let fileToUpload = file;
 
       if (activeTab === 'text') {
         if (!text.trim()) {
-          throw new Error("Please enter some text to analyze.");
+          throw new ApiError("Please enter some text to analyze.", 400);
         }
         // Convert text to a file
         const blob = new Blob([text], { type: 'text/plain' });
         fileToUpload = new File([blob], "contract_text.txt", { type: 'text/plain' });
       } else {
         if (!fileToUpload) {
-          throw new Error("Please select a file to upload.");
+          throw new ApiError("Please select a file to upload.", 400);
         }
       }
 
       showToast('🔍 Our AI is diving deep into your contract...', 'info');
 
-      // Extract contract content
-      let contractContent = await extractText(fileToUpload!);
-
-      // Clean PDF text (fixes one-word-per-line issue)
-      contractContent = cleanPdfText(contractContent);
+      // Upload once: extract the text, then analyse the cleaned text rather than re-sending the file
+      let contractContent: string;
+      if (activeTab === 'text') {
+        contractContent = text;
+      } else {
+        setStage('uploading');
+        contractContent = await extractText(fileToUpload!, {
+          signal: controller.signal,
+          onQueued,
+          onRetry,
+          onUploadProgress: (fraction) => {
+            setConnectionNote(null);
+            setUploadProgress(fraction);
+            if (fraction >= 1) setStage('extracting');
+          },
+        });
+      }
 
-      // Store file and content in Zustand
-      setContract(fileToUpload!, contractContent);
+      // Normalize once here; the stored text is used as-is everywhere else
+      contractContent = normalizeContractText(contractContent);
 
       // Analyze the contract
-      const result = await analyzeContract(fileToUpload!);
+      setStage('analyzing');
+      setConnectionNote(null);
+      const result = await analyzeContract(contractContent, { signal: controller.signal, jurisdiction, onQueued, onRetry });
+      setConnectionNote(null);
 
       // Check if document is irrelevant
       if (result.contract_type === 'Irrelevant') {
         showToast('⚠️ ' + result.plain_english_summary, 'warning');
-        setError(result.plain_english_summary);
+        setError(describeError(new ApiError(result.plain_english_summary, 422, { code: 'irrelevant_document' })));
         return; // Stop here, don't navigate
       }
 
-      // Store analysis result in Zustand
+      // Add the contract to the workspace and store its analysis in Zustand
+      const contractId = createContract(fileToUpload!, contractContent, jurisdiction);
       setAnalysis(result);
 
       showToast('✨ Analysis complete! Your insights are ready.', 'success');
 
+      const mismatch = getJurisdictionMismatch(jurisdiction, result.jurisdiction);
+      if (mismatch) {
+        showToast(`⚠️ ${mismatch}`, 'warning');
+      }
+
       // Small delay to show success message
       setTimeout(() => {
-        router.push('/report');
+        router.push(`/report/${contractId}`);
       }, 500);
-    } catch (err: any) {
+    } catch (err) {
+      if (isAbortError(err)) {
+        showToast('Analysis stopped.', 'info');
+        return;
+      }
       logError('Analysis Error', err);
-      const errorMessage = handleError(err, 'Contract Analysis', false);
-      setError(errorMessage);
+      handleError(err, 'Contract Analysis', false);
+      setError(describeError(err));
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
+      setStage(null);
+      setConnectionNote(null);
     }
   };
 
+  // Recovery actions offered under an analysis error
+  const recoveryActions = {
+    retry: handleAnalyze,
+    paste_text: () => {
+      setActiveTab('text');
+      setError(null);
+    },
+    choose_file: () => {
+      setActiveTab('upload');
+      setFile(null);
+      setError(null);
+      setTimeout(() => fileInputRef.current?.click()); // After the upload tab renders
+    },
+    split_document: () => {
+      setActiveTab('text');
+      setError(null);
+      showToast('Paste one part of the contract at a time (for example the main terms, then the schedules) and analyse each part.', 'info');
+    },
+  };
+
   // handleFileUpload from instruction, but it's not directly used in the current UI flow
   // The existing handleFileChange handles file selection.
   // Keeping it here as per instruction, but it might be redundant or intended for a different UI.
@@ -156,7 +241,7 @@ export default function Home() {
                       <p className="mb-2 text-sm text-muted-foreground"><span className="font-semibold">Click to upload</span> or drag and drop</p>
                       <p className="text-xs text-muted-foreground">PDF, DOCX, or TXT</p>
                     </div>
-                    <input id="file-upload" type="file" className="hidden" onChange={handleFileChange} accept=".pdf,.docx,.txt" />
+                    <input id="file-upload" ref={fileInputRef} type="file" className="hidden" onChange={handleFileChange} accept=".pdf,.docx,.txt" />
                   </label>
                   {file && (
                     <div className="mt-4 p-3 bg-primary/5 rounded-lg flex items-center justify-between">
@@ -177,34 +262,81 @@ export default function Home() {
               )}
             </div>
 
+            {/* Governing law used for analysis, redlines and negotiation */}
+            <JurisdictionPicker
+              value={jurisdiction}
+              onChange={setJurisdiction}
+              disabled={isLoading}
+              className="mt-6"
+            />
+
             {/* Error Message */}
             {error && (
-              <div className="mt-4 p-3 bg-red-50 text-red-600 text-sm rounded-lg border border-red-100">
-                {error}
-              </div>
+              <ErrorNotice
+                error={error}
+                onAction={recoveryActions}
+                onDismiss={() => setError(null)}
+                variant="light"
+                className="mt-4 text-left"
+              />
             )}
 
             {/* Action Button */}
-            <button
-              onClick={handleAnalyze}
-              disabled={isLoading}
-              className={`w-full mt-8 py-4 rounded-xl text-lg font-semibold text-white shadow-lg transition-all duration-300 ${isLoading
-                ? 'bg-muted cursor-not-allowed'
-                : 'bg-gradient-to-r from-primary to-slate-800 hover:shadow-xl hover:scale-[1.02]'
-                }`}
-            >
-              {isLoading ? (
-                <span className="flex items-center justify-center">
-                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Analyzing Contract...
-                </span>
-              ) : (
-                'Analyze Contract'
+            <div className="flex gap-3 mt-8">
+              <button
+                onClick={handleAnalyze}
+                disabled={isLoading}
+                className={`flex-1 py-4 rounded-xl text-lg font-semibold text-white shadow-lg transition-all duration-300 ${isLoading
+                  ? 'bg-muted cursor-not-allowed'
+                  : 'bg-gradient-to-r from-primary to-slate-800 hover:shadow-xl hover:scale-[1.02]'
+                  }`}
+              >
+                {isLoading ? (
+                  <span className="flex items-center justify-center">
+                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                    {STAGES.find(s => s.key === stage)?.label ?? 'Analyzing Contract'}...
+                  </span>
+                ) : (
+                  'Analyze Contract'
+                )}
+              </button>
+              {isLoading && (
+                <button
+                  onClick={handleStop}
+                  className="px-6 py-4 rounded-xl text-lg font-semibold border border-red-400/40 text-red-400 hover:bg-red-500/10 transition-colors"
+                >
+                  Stop
+                </button>
               )}
-            </button>
+            </div>
+
+            {/* Staged progress */}
+            {isLoading && stage && (
+              <div className="mt-6 flex items-center justify-center gap-3 text-xs">
+                {STAGES.map((s, idx) => {
+                  const currentIdx = STAGES.findIndex(x => x.key === stage);
+                  const state = idx < currentIdx ? 'done' : idx === currentIdx ? 'active' : 'pending';
+                  // Pasted text skips the upload and extraction steps
+                  if (activeTab === 'text' && s.key !== 'analyzing') return null;
+                  return (
+                    <div key={s.key} className="flex items-center gap-3">
+                      {idx > 0 && activeTab === 'upload' && <span className="w-6 h-px bg-muted-foreground/30" />}
+                      <span className={`flex items-center gap-1.5 ${state === 'active' ? 'text-primary font-semibold' : state === 'done' ? 'text-green-600' : 'text-muted-foreground'}`}>
+                        <span className={`w-2 h-2 rounded-full ${state === 'active' ? 'bg-primary animate-pulse' : state === 'done' ? 'bg-green-600' : 'bg-muted-foreground/30'}`} />
+                        {s.label}
+                        {s.key === 'uploading' && state === 'active' && ` ${Math.round(uploadProgress * 100)}%`}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {isLoading && connectionNote && (
+              <p className="mt-3 text-center text-xs text-yellow-700">{connectionNote}</p>
+            )}
           </div>
 
           <p className="text-xs text-muted-foreground">
@@ -0,0 +1,209 @@
+'use client';
+
+import { ChangeEvent, useRef, useState } from 'react';
+import Header from '@/components/Header';
+import { Card } from '@/components/ui/components';
+import { showToast } from '@/components/Toast';
+import { handleError } from '@/lib/errorHandler';
+import { downloadBlob } from '@/lib/download';
+import { parsePlaybook, PlaybookRule, usePlaybookHydrated, usePlaybookStore } from '@/lib/playbook';
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-foreground focus:outline-none focus:border-secondary/50';
+
+/**
+ * One entry per line; saved on blur so a half-typed line isn't trimmed away
+ */
+function ListField({ label, hint, value, onSave }: { label: string; hint: string; value: string[]; onSave: (value: string[]) => void }) {
+    const [draft, setDraft] = useState(value.join('\n'));
+
+    return (
+        <label className="block space-y-1">
+            <span className="text-xs font-semibold text-muted-foreground">{label}</span>
+            <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={() => onSave(draft.split('\n').map(line => line.trim()).filter(Boolean))}
+                rows={Math.max(2, value.length + 1)}
+                placeholder={hint}
+                className={`${inputClass} resize-y`}
+            />
+        </label>
+    );
+}
+
+function RuleEditor({ rule }: { rule: PlaybookRule }) {
+    const { updateRule, removeRule } = usePlaybookStore();
+
+    const handleDelete = () => {
+        if (!window.confirm(`Delete the "${rule.clauseType}" rule?`)) return;
+        removeRule(rule.id);
+    };
+
+    return (
+        <Card className="p-6 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+                <input
+                    value={rule.clauseType}
+                    onChange={(e) => updateRule(rule.id, { clauseType: e.target.value })}
+                    aria-label="Clause type"
+                    className="flex-1 bg-transparent border-b border-white/10 py-1 text-xl font-serif font-bold text-foreground focus:outline-none focus:border-secondary/50"
+                />
+                <button
+                    onClick={handleDelete}
+                    className="px-3 py-1.5 rounded-lg text-sm text-red-400 hover:bg-red-500/10 transition-colors"
+                >
+                    Delete
+                </button>
+            </div>
+
+            <label className="block space-y-1">
+                <span className="text-xs font-semibold text-muted-foreground">Preferred position</span>
+                <textarea
+                    value={rule.preferred}
+                    onChange={(e) => updateRule(rule.id, { preferred: e.target.value })}
+                    rows={2}
+                    className={`${inputClass} resize-y`}
+                />
+            </label>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Keyed by the saved value, so an import or reset replaces the draft */}
+                <ListField
+                    key={`fallbacks-${rule.fallbacks.join('\n')}`}
+                    label="Acceptable fallbacks, most preferred first"
+                    hint="One per line"
+                    value={rule.fallbacks}
+                    onSave={(fallbacks) => updateRule(rule.id, { fallbacks })}
+                />
+                <label className="block space-y-1">
+                    <span className="text-xs font-semibold text-muted-foreground">Walk-away point</span>
+                    <textarea
+                        value={rule.walkAway}
+                        onChange={(e) => updateRule(rule.id, { walkAway: e.target.value })}
+                        rows={2}
+                        className={`${inputClass} resize-y`}
+                    />
+                </label>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <ListField
+                    key={`keywords-${rule.keywords.join('\n')}`}
+                    label="Clause headings containing"
+                    hint="e.g. liability"
+                    value={rule.keywords}
+                    onSave={(keywords) => updateRule(rule.id, { keywords })}
+                />
+                <ListField
+                    key={`required-${rule.requiredTerms.join('\n')}`}
+                    label="Should mention one of"
+                    hint="e.g. 12 months"
+                    value={rule.requiredTerms}
+                    onSave={(requiredTerms) => updateRule(rule.id, { requiredTerms })}
+                />
+                <ListField
+                    key={`fallback-terms-${rule.fallbackTerms.join('\n')}`}
+                    label="At a fallback if it mentions"
+                    hint="e.g. 24 months"
+                    value={rule.fallbackTerms}
+                    onSave={(fallbackTerms) => updateRule(rule.id, { fallbackTerms })}
+                />
+                <ListField
+                    key={`prohibited-${rule.prohibitedTerms.join('\n')}`}
+                    label="Must not mention"
+                    hint="e.g. unlimited liability"
+                    value={rule.prohibitedTerms}
+                    onSave={(prohibitedTerms) => updateRule(rule.id, { prohibitedTerms })}
+                />
+            </div>
+            {rule.keywords.length === 0 && (
+                <p className="text-xs text-muted-foreground">Add a heading keyword so this rule can be matched to clauses.</p>
+            )}
+        </Card>
+    );
+}
+
+export default function PlaybookPage() {
+    const { rules, addRule, replaceRules, resetToDefaults } = usePlaybookStore();
+    const hasHydrated = usePlaybookHydrated();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleExport = () => {
+        const blob = new Blob([JSON.stringify({ rules }, null, 2)], { type: 'application/json' });
+        downloadBlob(blob, 'negotiation-playbook.json');
+    };
+
+    const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parsePlaybook(JSON.parse(await file.text()));
+            if (!window.confirm(`Replace your ${rules.length} rules with the ${imported.length} in "${file.name}"?`)) return;
+            replaceRules(imported);
+            showToast(`Imported ${imported.length} playbook rule${imported.length === 1 ? '' : 's'}.`, 'success');
+        } catch (error) {
+            handleError(error instanceof SyntaxError ? new Error('This file is not valid JSON.') : error, 'Import Playbook');
+        }
+    };
+
+    const handleReset = () => {
+        if (!window.confirm('Reset the playbook to the default rules? Your rules will be removed.')) return;
+        resetToDefaults();
+    };
+
+    return (
+        <>
+            <Header />
+            <div className="min-h-screen p-4 pt-24 bg-gradient-to-b from-background to-accent/20">
+                <main className="max-w-5xl mx-auto space-y-8">
+                    <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+                        <div>
+                            <h1 className="text-4xl font-serif font-bold text-gradient-gold">Negotiation Playbook</h1>
+                            <p className="text-muted-foreground mt-2">
+                                Your team&apos;s positions by clause type. The copilot negotiates from them, and reports flag clauses that deviate.
+                            </p>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <button
+                                onClick={() => fileInputRef.current?.click()}
+                                className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-sm text-foreground transition-colors"
+                            >
+                                Import
+                            </button>
+                            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+                            <button
+                                onClick={handleExport}
+                                className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-sm text-foreground transition-colors"
+                            >
+                                Export
+                            </button>
+                            <button
+                                onClick={handleReset}
+                                className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-sm text-muted-foreground transition-colors"
+                            >
+                                Reset
+                            </button>
+                            <button
+                                onClick={addRule}
+                                className="px-6 py-2 rounded-full bg-gradient-to-r from-primary to-slate-800 text-white font-semibold hover:shadow-lg hover:scale-[1.02] transition-all duration-200"
+                            >
+                                + Add Rule
+                            </button>
+                        </div>
+                    </div>
+
+                    {hasHydrated && rules.length === 0 && (
+                        <div className="p-12 text-center text-muted-foreground bg-white/5 rounded-2xl border border-dashed border-white/10">
+                            No rules yet. Add one, or import your team&apos;s playbook.
+                        </div>
+                    )}
+
+                    <div className="space-y-4">
+                        {hasHydrated && rules.map(rule => <RuleEditor key={rule.id} rule={rule} />)}
+                    </div>
+                </main>
+            </div>
+        </>
+    );
+}
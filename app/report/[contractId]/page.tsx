@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useContractStore, useStoreHydrated } from '@/lib/contract-store';
+import ReportDashboard from '@/components/ReportDashboard';
+import { exportAnalysisPdf } from '@/lib/reportPdf';
+import { handleError } from '@/lib/errorHandler';
+
+export default function ReportPage() {
+    const router = useRouter();
+    const { contractId } = useParams<{ contractId: string }>();
+    // Get this route's contract from the Zustand workspace
+    const contract = useContractStore((state) => state.contracts[contractId]);
+    const setActiveContract = useContractStore((state) => state.setActiveContract);
+    const setJurisdiction = useContractStore((state) => state.setJurisdiction);
+    const data = contract?.analysisResult ?? null;
+    const hasHydrated = useStoreHydrated();
+
+    useEffect(() => {
+        // Don't check until the workspace has loaded from IndexedDB
+        if (!hasHydrated) return;
+
+        if (!contract) {
+            router.push('/contracts'); // Unknown contract
+        } else if (!contract.analysisResult) {
+            router.push('/'); // Redirect if no data
+        } else {
+            setActiveContract(contractId);
+        }
+    }, [contract, contractId, router, setActiveContract, hasHydrated]);
+
+    const handleExportPdf = () => {
+        if (!data) return;
+        try {
+            exportAnalysisPdf(data, contract.explanations);
+        } catch (error) {
+            handleError(error, 'PDF Export');
+        }
+    };
+
+    if (!contract || !data) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-[#020617] text-white">
+                <div className="flex flex-col items-center space-y-4">
+                    <div className="w-12 h-12 border-4 border-secondary border-t-transparent rounded-full animate-spin"></div>
+                    <p className="text-muted-foreground animate-pulse">Loading Analysis...</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-[#020617] text-foreground p-8">
+            <div className="max-w-7xl mx-auto">
+                <header className="flex items-center justify-between mb-12">
+                    <div className="flex items-center gap-4">
+                        <img src="/logo.png" alt="LegalSay" className="h-12 w-12" />
+                        <div className="h-6 w-px bg-white/10"></div>
+                        <button onClick={() => router.push('/contracts')} className="text-sm font-medium text-muted-foreground hover:text-foreground transition-colors">
+                            Workspace
+                        </button>
+                        <span className="text-sm text-muted-foreground/50">/</span>
+                        <span className="text-sm font-medium text-muted-foreground truncate max-w-xs">{contract.name}</span>
+                    </div>
+                    <button onClick={handleExportPdf} className="text-sm font-medium text-primary hover:text-secondary transition-colors">
+                        Export PDF
+                    </button>
+                </header>
+
+                <ReportDashboard
+                    contractId={contractId}
+                    data={data}
+                    contractText={contract.contractContent}
+                    flags={contract.flags}
+                    flagDelta={contract.flagDelta}
+                    analysisRuns={contract.analysisRuns}
+                    originalFile={contract.file}
+                    jurisdiction={contract.jurisdiction}
+                    onJurisdictionChange={setJurisdiction}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Card, HealthGauge, Sparkline } from '@/components/ui/components';
+import { AnalysisRun, convertAnalysisToFlags } from '@/lib/contract-store';
+import { reconcileFlags } from '@/lib/flags';
+
+/**
+ * Risk progress across every analysis of the contract: first vs latest score,
+ * per-run flag counts, and which risks negotiation resolved or introduced
+ */
+export default function AnalysisProgress({ runs }: { runs: AnalysisRun[] }) {
+    const rows = useMemo(() => runs.map(run => {
+        const flags = convertAnalysisToFlags(run.analysis);
+        return {
+            run,
+            score: run.analysis.total_health_score,
+            red: flags.filter(f => f.type === 'red').length,
+            yellow: flags.filter(f => f.type === 'yellow').length,
+            green: flags.filter(f => f.type === 'green').length,
+        };
+    }), [runs]);
+
+    const delta = useMemo(
+        () => reconcileFlags(convertAnalysisToFlags(runs[0].analysis), convertAnalysisToFlags(runs[runs.length - 1].analysis)),
+        [runs]
+    );
+    const resolved = delta.changes.filter(c => c.status === 'resolved');
+    const introduced = delta.changes.filter(c => c.status === 'new');
+
+    const first = rows[0];
+    const latest = rows[rows.length - 1];
+    const change = latest.score - first.score;
+
+    return (
+        <Card className="p-8 space-y-8">
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+                <div>
+                    <h2 className="text-2xl font-serif font-bold text-foreground">Progress</h2>
+                    <p className="text-sm text-muted-foreground">{runs.length} analyses of this contract</p>
+                </div>
+                <div className={`flex items-center gap-3 ${change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    <Sparkline values={rows.map(r => r.score)} />
+                    <span className="text-lg font-bold">{change > 0 ? '+' : ''}{change}</span>
+                </div>
+            </div>
+
+            <div className="flex items-center justify-center gap-6 flex-wrap">
+                <div className="flex flex-col items-center">
+                    <HealthGauge score={first.score} />
+                    <span className="text-xs uppercase tracking-widest text-muted-foreground mt-2">First analysis</span>
+                </div>
+                <svg className="w-6 h-6 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M14 5l7 7m0 0l-7 7m7-7H3"></path></svg>
+                <div className="flex flex-col items-center">
+                    <HealthGauge score={latest.score} />
+                    <span className="text-xs uppercase tracking-widest text-muted-foreground mt-2">Latest</span>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-xs uppercase tracking-widest text-muted-foreground text-left">
+                            <th className="py-2 pr-4 font-medium">Run</th>
+                            <th className="py-2 pr-4 font-medium">Score</th>
+                            <th className="py-2 pr-4 font-medium text-red-400">Red</th>
+                            <th className="py-2 pr-4 font-medium text-yellow-400">Yellow</th>
+                            <th className="py-2 font-medium text-green-400">Green</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row, idx) => (
+                            <tr key={row.run.id} className="border-t border-white/5">
+                                <td className="py-2 pr-4 text-muted-foreground">
+                                    #{idx + 1} · {new Date(row.run.createdAt).toLocaleString()}
+                                </td>
+                                <td className="py-2 pr-4 font-semibold text-foreground">{row.score}</td>
+                                <td className="py-2 pr-4">{row.red}</td>
+                                <td className="py-2 pr-4">{row.yellow}</td>
+                                <td className="py-2">{row.green}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-3">
+                    <h3 className="text-xs font-semibold uppercase tracking-widest text-green-400">Resolved ({resolved.length})</h3>
+                    {resolved.length === 0 && <p className="text-sm text-muted-foreground italic">None yet</p>}
+                    <ul className="space-y-2">
+                        {resolved.map(c => (
+                            <li key={c.flag.id} className="text-sm text-foreground/70 line-through leading-relaxed">{c.flag.analysis}</li>
+                        ))}
+                    </ul>
+                </div>
+                <div className="space-y-3">
+                    <h3 className="text-xs font-semibold uppercase tracking-widest text-red-400">Newly introduced ({introduced.length})</h3>
+                    {introduced.length === 0 && <p className="text-sm text-muted-foreground italic">None</p>}
+                    <ul className="space-y-2">
+                        {introduced.map(c => (
+                            <li key={c.flag.id} className="text-sm text-foreground/90 leading-relaxed">{c.flag.analysis}</li>
+                        ))}
+                    </ul>
+                </div>
+            </div>
+        </Card>
+    );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { Clause, flattenClauses, formatClauseLabel } from '@/lib/clauses';
+import type { FlagWithText } from '@/lib/contract-store';
+
+interface ClauseOutlineProps {
+    clauses: Clause[];
+    flags: FlagWithText[];
+    activeClauseId?: string | null;
+    onSelect: (clauseId: string) => void;
+    className?: string;
+}
+
+/**
+ * Contract outline with flag markers; selecting a clause jumps to it
+ */
+export default function ClauseOutline({ clauses, flags, activeClauseId, onSelect, className = '' }: ClauseOutlineProps) {
+    const flat = flattenClauses(clauses);
+
+    if (flat.length === 0) {
+        return <p className={`text-xs text-white/40 italic ${className}`}>No numbered sections found in this contract.</p>;
+    }
+
+    // Flags count toward the clause they sit in and every clause above it
+    const flagsFor = (clause: Clause) => {
+        const ids = new Set(flattenClauses([clause]).map(c => c.id));
+        return flags.filter(flag => flag.clauseId && ids.has(flag.clauseId));
+    };
+
+    return (
+        <nav className={`space-y-0.5 ${className}`}>
+            {flat.map((clause) => {
+                const clauseFlags = flagsFor(clause);
+                const red = clauseFlags.filter(f => f.type === 'red').length;
+                const yellow = clauseFlags.filter(f => f.type === 'yellow').length;
+                const isActive = clause.id === activeClauseId;
+
+                return (
+                    <button
+                        key={clause.id}
+                        onClick={() => onSelect(clause.id)}
+                        style={{ paddingLeft: `${(clause.level - 1) * 14 + 8}px` }}
+                        className={`w-full flex items-center gap-2 pr-2 py-1.5 rounded text-left text-xs transition-colors ${isActive ? 'bg-[#d4af37]/15 text-[#d4af37]' : 'text-white/60 hover:bg-white/5 hover:text-white'}`}
+                    >
+                        <span className={`truncate flex-1 ${clause.level === 1 ? 'font-semibold' : ''}`} title={formatClauseLabel(clause)}>
+                            {formatClauseLabel(clause)}
+                        </span>
+                        {red > 0 && <span className="flex-shrink-0 px-1.5 rounded-full bg-red-500/20 text-red-400 text-[10px]">{red}</span>}
+                        {yellow > 0 && <span className="flex-shrink-0 px-1.5 rounded-full bg-yellow-500/20 text-yellow-400 text-[10px]">{yellow}</span>}
+                    </button>
+                );
+            })}
+        </nav>
+    );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { checkApiHealth } from '@/lib/api';
+import { checkConnectionNow, startConnectivityMonitor, useConnectivity } from '@/lib/connectivity';
+import { showToast } from '@/components/Toast';
+
+/**
+ * Top-of-page notice while the browser is offline or the API can't be reached.
+ * Also runs the connectivity monitor, so it is mounted once in the root layout.
+ */
+export function ConnectionBanner() {
+    const online = useConnectivity((state) => state.online);
+    const apiReachable = useConnectivity((state) => state.apiReachable);
+    const wasDownRef = useRef(false);
+
+    useEffect(() => startConnectivityMonitor((signal) => checkApiHealth({ signal })), []);
+
+    const isDown = !online || !apiReachable;
+
+    // Let the user know when things recover; queued analyses resume on their own
+    useEffect(() => {
+        if (wasDownRef.current && !isDown) showToast('Connection restored.', 'success');
+        wasDownRef.current = isDown;
+    }, [isDown]);
+
+    if (!isDown) return null;
+
+    return (
+        <div role="status" className="fixed top-0 inset-x-0 z-[60] flex items-center justify-center gap-4 px-4 py-2 text-sm text-white bg-yellow-600/95 border-b border-yellow-400 backdrop-blur-md">
+            <span>
+                {!online
+                    ? "You're offline. Analyses you start will run when the connection returns."
+                    : "Can't reach the LegalSay server. Retrying automatically…"}
+            </span>
+            {online && (
+                <button onClick={checkConnectionNow} className="font-semibold underline underline-offset-2 hover:text-white/80">
+                    Retry now
+                </button>
+            )}
+        </div>
+    );
+}
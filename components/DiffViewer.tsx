@@ -2,19 +2,85 @@ import React from 'react';
 import * as diff from 'diff';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { HunkDecision, RevisionSegment } from '@/lib/revisions';
 
 function cn(...inputs: ClassValue[]) {
     return twMerge(clsx(inputs));
 }
 
+// Whitespace-only changes would be invisible, so line breaks show as ¶ and spaces as ·
+function showWhitespace(text: string, keepBreaks: boolean): string {
+    if (text.trim()) return text;
+    if (!text.includes('\n')) return '·';
+    return keepBreaks ? `¶${text}` : '¶';
+}
+
 interface DiffViewerProps {
     oldText: string;
     newText: string;
     className?: string;
+    // Review mode: pass precomputed segments plus a decision handler to accept/reject each hunk
+    segments?: RevisionSegment[];
+    decisions?: Record<number, HunkDecision>;
+    onDecide?: (hunkId: number, decision: HunkDecision) => void;
 }
 
-export const DiffViewer: React.FC<DiffViewerProps> = ({ oldText, newText, className }) => {
-    const diffs = diff.diffWords(oldText, newText);
+export const DiffViewer: React.FC<DiffViewerProps> = ({ oldText, newText, className, segments, decisions = {}, onDecide }) => {
+    if (segments && onDecide) {
+        return (
+            <div className={cn("font-mono text-sm leading-relaxed whitespace-pre-wrap", className)}>
+                {segments.map((segment, index) => {
+                    if (segment.kind === 'equal') {
+                        return <span key={index} className="text-foreground/80">{segment.value}</span>;
+                    }
+
+                    const { hunk } = segment;
+                    const decision = decisions[hunk.id];
+
+                    return (
+                        <span
+                            key={index}
+                            className={cn(
+                                "rounded-sm ring-1 transition-colors duration-300",
+                                decision === 'accepted' ? 'ring-green-400/40' : decision === 'rejected' ? 'ring-red-400/40' : 'ring-white/10'
+                            )}
+                        >
+                            {hunk.removed && decision !== 'accepted' && (
+                                <span className={cn("px-0.5", decision === 'rejected' ? 'text-foreground/80' : 'text-red-400 bg-red-400/10 line-through decoration-red-400/50')}>
+                                    {decision === 'rejected' ? hunk.removed : showWhitespace(hunk.removed, false)}
+                                </span>
+                            )}
+                            {hunk.added && decision !== 'rejected' && (
+                                <span className={cn("px-0.5", decision === 'accepted' ? 'text-green-300' : 'text-green-400 bg-green-400/10')}>
+                                    {showWhitespace(hunk.added, true)}
+                                </span>
+                            )}
+                            <span className="inline-flex align-middle gap-0.5 mx-0.5 font-sans">
+                                <button
+                                    type="button"
+                                    onClick={() => onDecide(hunk.id, 'accepted')}
+                                    title="Accept this change"
+                                    className={cn("w-4 h-4 rounded text-[10px] leading-none", decision === 'accepted' ? 'bg-green-500 text-white' : 'bg-white/10 text-green-400 hover:bg-green-500/30')}
+                                >
+                                    ✓
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => onDecide(hunk.id, 'rejected')}
+                                    title="Reject this change"
+                                    className={cn("w-4 h-4 rounded text-[10px] leading-none", decision === 'rejected' ? 'bg-red-500 text-white' : 'bg-white/10 text-red-400 hover:bg-red-500/30')}
+                                >
+                                    ✕
+                                </button>
+                            </span>
+                        </span>
+                    );
+                })}
+            </div>
+        );
+    }
+
+    const diffs = diff.diffWordsWithSpace(oldText, newText);
 
     return (
         <div className={cn("font-mono text-sm leading-relaxed whitespace-pre-wrap", className)}>
@@ -25,7 +91,7 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({ oldText, newText, classN
 
                 return (
                     <span key={index} className={cn(color, "px-0.5 rounded-sm transition-colors duration-300")}>
-                        {part.value}
+                        {part.added || part.removed ? showWhitespace(part.value, !!part.added) : part.value}
                     </span>
                 );
             })}
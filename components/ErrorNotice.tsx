@@ -0,0 +1,59 @@
+'use client';
+
+import { ErrorDescription, RECOVERY_ACTION_LABELS, RecoveryAction } from '@/lib/errorHandler';
+
+interface ErrorNoticeProps {
+    error: ErrorDescription;
+    // Handlers for the recovery actions this screen supports; others are not shown
+    onAction: Partial<Record<RecoveryAction, () => void>>;
+    onDismiss?: () => void;
+    variant?: 'light' | 'dark';
+    className?: string;
+}
+
+const STYLES = {
+    light: {
+        box: 'bg-red-50 text-red-600 border-red-100',
+        button: 'bg-white border-red-200 text-red-700 hover:bg-red-100',
+    },
+    dark: {
+        box: 'bg-red-500/10 text-red-300 border-red-500/30',
+        button: 'bg-white/5 border-red-500/30 text-red-200 hover:bg-red-500/20',
+    },
+};
+
+/**
+ * An error message with buttons for the ways to recover from it
+ */
+export default function ErrorNotice({ error, onAction, onDismiss, variant = 'dark', className = '' }: ErrorNoticeProps) {
+    const styles = STYLES[variant];
+    const actions = error.actions.filter(action => onAction[action]);
+
+    return (
+        <div role="alert" className={`p-3 text-sm rounded-lg border ${styles.box} ${className}`}>
+            <div className="flex items-start justify-between gap-3">
+                <p className="whitespace-pre-line leading-relaxed">{error.message}</p>
+                {onDismiss && (
+                    <button onClick={onDismiss} aria-label="Dismiss" className="flex-shrink-0 opacity-60 hover:opacity-100 transition-opacity">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                )}
+            </div>
+            {actions.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                    {actions.map(action => (
+                        <button
+                            key={action}
+                            onClick={onAction[action]}
+                            className={`px-3 py-1.5 rounded-md border text-xs font-semibold transition-colors ${styles.button}`}
+                        >
+                            {RECOVERY_ACTION_LABELS[action]}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
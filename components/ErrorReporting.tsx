@@ -0,0 +1,21 @@
+'use client';
+
+import { useEffect } from 'react';
+import { usePathname } from 'next/navigation';
+import { addBreadcrumb, startErrorReporting } from '@/lib/errorHandler';
+
+/**
+ * Hooks the error reporter up to the page: uncaught errors, flushing on hide, and page transitions as breadcrumbs.
+ * Renders nothing; mounted once in the root layout.
+ */
+export function ErrorReporting() {
+    const pathname = usePathname();
+
+    useEffect(() => startErrorReporting(), []);
+
+    useEffect(() => {
+        addBreadcrumb('navigation', pathname);
+    }, [pathname]);
+
+    return null;
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { Card } from '@/components/ui/components';
+import type { FlagWithText } from '@/lib/contract-store';
+import type { FlagChange, FlagDelta, FlagStatus } from '@/lib/flags';
+
+export const STATUS_STYLES: Record<FlagStatus, { label: string; className: string }> = {
+    resolved: { label: 'Resolved', className: 'bg-green-500/15 text-green-400' },
+    changed: { label: 'Changed', className: 'bg-blue-500/15 text-blue-300' },
+    new: { label: 'New', className: 'bg-red-500/15 text-red-400' },
+    open: { label: 'Still open', className: 'bg-white/10 text-muted-foreground' },
+};
+
+const TYPE_DOT: Record<FlagWithText['type'], string> = {
+    red: 'bg-red-500',
+    yellow: 'bg-yellow-500',
+    green: 'bg-green-500',
+};
+
+function ChangeRow({ change }: { change: FlagChange<FlagWithText> }) {
+    return (
+        <li className="flex items-start gap-3 text-sm">
+            <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${TYPE_DOT[change.flag.type]}`} />
+            <div className="min-w-0">
+                <p className={`text-foreground/90 leading-relaxed ${change.status === 'resolved' ? 'line-through opacity-60' : ''}`}>
+                    {change.flag.analysis}
+                </p>
+                {change.previous && change.previous.type !== change.flag.type && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                        Was {change.previous.type.toUpperCase()}, now {change.flag.type.toUpperCase()}
+                    </p>
+                )}
+            </div>
+        </li>
+    );
+}
+
+/**
+ * What a re-analysis resolved, changed or introduced compared with the previous one
+ */
+export default function FlagDeltaSummary({ delta }: { delta: FlagDelta<FlagWithText> }) {
+    const byStatus = (status: FlagStatus) => delta.changes.filter(c => c.status === status);
+    const groups = (['resolved', 'changed', 'new'] as const).filter(status => byStatus(status).length > 0);
+
+    return (
+        <Card className="p-6 space-y-4">
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+                <div>
+                    <h3 className="text-lg font-serif font-bold text-foreground">Since the last analysis</h3>
+                    <p className="text-xs text-muted-foreground">Compared {new Date(delta.comparedAt).toLocaleString()}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {(['resolved', 'changed', 'new', 'open'] as const).map(status => (
+                        <span key={status} className={`px-3 py-1 rounded-full text-xs font-semibold ${STATUS_STYLES[status].className}`}>
+                            {byStatus(status).length} {STATUS_STYLES[status].label}
+                        </span>
+                    ))}
+                </div>
+            </div>
+
+            {groups.map(status => (
+                <details key={status} open={status !== 'changed'} className="group">
+                    <summary className="text-xs font-semibold uppercase tracking-widest text-muted-foreground cursor-pointer hover:text-foreground">
+                        {STATUS_STYLES[status].label} ({byStatus(status).length})
+                    </summary>
+                    <ul className="mt-3 space-y-3">
+                        {byStatus(status).map(change => <ChangeRow key={`${status}-${change.flag.id}`} change={change} />)}
+                    </ul>
+                </details>
+            ))}
+        </Card>
+    );
+}
@@ -12,6 +12,16 @@ export default function Header() {
         setIsMobileMenuOpen(false);
     };
 
+    const navigateToWorkspace = () => {
+        router.push('/contracts');
+        setIsMobileMenuOpen(false);
+    };
+
+    const navigateToPlaybook = () => {
+        router.push('/playbook');
+        setIsMobileMenuOpen(false);
+    };
+
     return (
         <header className="fixed top-0 left-0 right-0 z-50 bg-background/80 backdrop-blur-md border-b border-border/50">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -26,6 +36,18 @@ export default function Header() {
 
                     {/* Desktop Navigation */}
                     <nav className="hidden md:flex items-center gap-4">
+                        <button
+                            onClick={navigateToWorkspace}
+                            className="px-4 py-2 rounded-full text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+                        >
+                            Workspace
+                        </button>
+                        <button
+                            onClick={navigateToPlaybook}
+                            className="px-4 py-2 rounded-full text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+                        >
+                            Playbook
+                        </button>
                         <button
                             onClick={navigateToPlayground}
                             className="px-6 py-2 rounded-full bg-gradient-to-r from-primary to-slate-800 text-white font-semibold hover:shadow-lg hover:scale-[1.02] transition-all duration-200"
@@ -59,6 +81,18 @@ export default function Header() {
             {isMobileMenuOpen && (
                 <div className="md:hidden border-t border-border/50 bg-background/95 backdrop-blur-md">
                     <nav className="px-4 py-4 space-y-3">
+                        <button
+                            onClick={navigateToWorkspace}
+                            className="w-full px-6 py-3 rounded-lg bg-accent/40 text-foreground font-semibold transition-all duration-200"
+                        >
+                            Workspace
+                        </button>
+                        <button
+                            onClick={navigateToPlaybook}
+                            className="w-full px-6 py-3 rounded-lg bg-accent/40 text-foreground font-semibold transition-all duration-200"
+                        >
+                            Playbook
+                        </button>
                         <button
                             onClick={navigateToPlayground}
                             className="w-full px-6 py-3 rounded-lg bg-gradient-to-r from-primary to-slate-800 text-white font-semibold hover:shadow-lg transition-all duration-200"
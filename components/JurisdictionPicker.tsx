@@ -0,0 +1,125 @@
+'use client';
+
+import { useId, useMemo, useState } from 'react';
+import { Jurisdiction, searchJurisdictions } from '@/lib/jurisdictions';
+
+interface JurisdictionPickerProps {
+    value: string;
+    onChange: (jurisdiction: string) => void;
+    label?: string;
+    disabled?: boolean;
+    className?: string;
+}
+
+const GROUP_ORDER: Jurisdiction['group'][] = ['United States', 'United Kingdom', 'European Union', 'Other'];
+
+/**
+ * Searchable combobox for the contract's governing law
+ */
+export default function JurisdictionPicker({ value, onChange, label = 'Governing law', disabled, className = '' }: JurisdictionPickerProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [query, setQuery] = useState('');
+    const [highlight, setHighlight] = useState(0);
+    const listboxId = useId();
+    const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+    const matches = useMemo(() => searchJurisdictions(query), [query]);
+    const grouped = GROUP_ORDER
+        .map(group => ({ group, items: matches.filter(j => j.group === group) }))
+        .filter(g => g.items.length > 0);
+
+    const open = () => {
+        setQuery('');
+        setHighlight(0);
+        setIsOpen(true);
+    };
+
+    const select = (jurisdiction: Jurisdiction) => {
+        onChange(jurisdiction.value);
+        setIsOpen(false);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!isOpen && (e.key === 'ArrowDown' || e.key === 'Enter')) {
+            e.preventDefault();
+            open();
+            return;
+        }
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setHighlight(h => Math.min(h + 1, matches.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setHighlight(h => Math.max(h - 1, 0));
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            if (matches[highlight]) select(matches[highlight]);
+        } else if (e.key === 'Escape') {
+            setIsOpen(false);
+        }
+    };
+
+    return (
+        <div className={`relative text-left ${className}`}>
+            {label && (
+                <label className="block text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-1.5">
+                    {label}
+                </label>
+            )}
+            <input
+                type="text"
+                role="combobox"
+                aria-expanded={isOpen}
+                aria-controls={listboxId}
+                aria-autocomplete="list"
+                aria-activedescendant={isOpen && matches[highlight] ? optionId(highlight) : undefined}
+                disabled={disabled}
+                value={isOpen ? query : value}
+                placeholder={isOpen ? `Search ${value}...` : 'Select a jurisdiction'}
+                onFocus={open}
+                onBlur={() => setIsOpen(false)}
+                onChange={(e) => {
+                    setQuery(e.target.value);
+                    setHighlight(0);
+                }}
+                onKeyDown={handleKeyDown}
+                className="w-full px-3 py-2 rounded-lg border border-input bg-background text-sm text-foreground focus:ring-2 focus:ring-primary focus:outline-none disabled:opacity-50"
+            />
+
+            {isOpen && (
+                <div id={listboxId} role="listbox" className="absolute z-50 mt-1 w-full max-h-72 overflow-y-auto rounded-lg border border-border bg-card shadow-xl">
+                    {grouped.length === 0 && (
+                        <p className="px-3 py-2 text-sm text-muted-foreground italic">No matching jurisdiction</p>
+                    )}
+                    {grouped.map(({ group, items }) => (
+                        <div key={group} role="group" aria-label={group}>
+                            <p aria-hidden="true" className="sticky top-0 px-3 py-1 text-[10px] font-semibold uppercase tracking-widest text-muted-foreground bg-card">
+                                {group}
+                            </p>
+                            {items.map((jurisdiction) => {
+                                const index = matches.indexOf(jurisdiction);
+                                return (
+                                    <button
+                                        key={jurisdiction.value}
+                                        id={optionId(index)}
+                                        type="button"
+                                        role="option"
+                                        tabIndex={-1}
+                                        aria-selected={index === highlight}
+                                        // Keep focus on the input so onBlur doesn't close the list before the click lands
+                                        onMouseDown={(e) => e.preventDefault()}
+                                        onClick={() => select(jurisdiction)}
+                                        onMouseEnter={() => setHighlight(index)}
+                                        className={`w-full text-left px-3 py-1.5 text-sm transition-colors ${index === highlight ? 'bg-accent text-accent-foreground' : 'text-foreground'} ${jurisdiction.value === value ? 'font-semibold' : ''}`}
+                                    >
+                                        {jurisdiction.name}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useContractStore } from '@/lib/contract-store';
+import { DEFAULT_JURISDICTION } from '@/lib/jurisdictions';
+import { streamNegotiation } from '@/lib/negotiationStream';
+import { ApiError, describeError, ErrorDescription, handleError, isAbortError } from '@/lib/errorHandler';
+import {
+    buildLetterPolishPrompt,
+    collectAcceptedEdits,
+    composeLetter,
+    exportLetter,
+    LETTER_TONES,
+    LetterDraft,
+    LetterFormat,
+    LetterTone,
+} from '@/lib/letter';
+import ErrorNotice from '@/components/ErrorNotice';
+import { showToast } from '@/components/Toast';
+
+const FORMATS: { format: LetterFormat; label: string }[] = [
+    { format: 'eml', label: 'Email (.eml)' },
+    { format: 'docx', label: 'Word (.docx)' },
+    { format: 'pdf', label: 'PDF' },
+];
+
+/**
+ * "Generate counterparty letter": drafts a letter from the accepted AI edits and their rationale,
+ * in a chosen tone, for the user to edit, polish with the copilot and export
+ */
+export default function LetterComposer({ contractId, onClose }: { contractId: string; onClose: () => void }) {
+    const contract = useContractStore((state) => state.contracts[contractId]);
+    const contractName = contract?.name ?? 'contract';
+    const edits = useMemo(
+        () => (contract ? collectAcceptedEdits(contract.versions, contract.versionIndex) : []),
+        [contract]
+    );
+
+    const [tone, setTone] = useState<LetterTone>('cordial');
+    const [draft, setDraft] = useState<LetterDraft>(() => composeLetter(contractName, edits, 'cordial'));
+    const [edited, setEdited] = useState(false);
+    const [polishing, setPolishing] = useState(false);
+    const [failure, setFailure] = useState<{ error: ErrorDescription; retry: () => void } | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    // Stop a polish in progress when the dialog closes
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const updateDraft = (update: Partial<LetterDraft>) => {
+        setDraft(prev => ({ ...prev, ...update }));
+        setEdited(true);
+    };
+
+    const changeTone = (next: LetterTone) => {
+        if (next === tone || polishing) return;
+        if (edited && !window.confirm(`Start a new ${LETTER_TONES[next].label.toLowerCase()} draft? Your changes to this letter will be replaced.`)) return;
+        setTone(next);
+        setDraft(composeLetter(contractName, edits, next));
+        setEdited(false);
+    };
+
+    // Rewrites the body through the copilot, streaming into the editor; the previous text comes back on failure
+    const polish = async () => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        const before = draft;
+        setPolishing(true);
+        setFailure(null);
+
+        try {
+            let body = '';
+            const stream = streamNegotiation({
+                message: buildLetterPolishPrompt(before, tone),
+                contract_context: contract?.contractContent ?? '',
+                jurisdiction: contract?.jurisdiction || DEFAULT_JURISDICTION,
+                analysis_context: contract?.analysisResult ?? {},
+                history: [],
+                edit_scope: 'document',
+            }, { signal: controller.signal });
+
+            for await (const event of stream) {
+                if (event.type === 'text_delta') {
+                    body += event.content;
+                    setDraft({ ...before, body });
+                } else if (event.type === 'error' && event.source === 'server') {
+                    throw new ApiError(event.message, undefined, { code: 'stream_interrupted' });
+                }
+            }
+            if (!body.trim()) throw new ApiError('The copilot returned an empty letter', 502);
+            setDraft({ ...before, body: body.trim() });
+            setEdited(true);
+        } catch (error) {
+            setDraft(before);
+            if (!isAbortError(error)) {
+                handleError(error, 'Polish Letter', false);
+                setFailure({ error: describeError(error), retry: polish });
+            }
+        } finally {
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+                setPolishing(false);
+            }
+        }
+    };
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(`${draft.subject}\n\n${draft.body}`);
+            showToast('Letter copied to the clipboard.', 'success');
+        } catch (error) {
+            handleError(error, 'Copy Letter');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="w-full max-w-3xl max-h-[90vh] bg-[#13151f] border border-white/20 rounded-xl shadow-2xl flex flex-col overflow-hidden"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="p-4 border-b border-white/20 flex items-center justify-between flex-shrink-0">
+                    <div>
+                        <h2 className="text-base font-semibold text-white">Counterparty Letter</h2>
+                        <p className="text-xs text-white/50">
+                            {edits.length > 0
+                                ? `Based on ${edits.length} accepted edit${edits.length === 1 ? '' : 's'}`
+                                : 'No accepted AI edits yet; describe your amendments in the letter'}
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="text-white/50 hover:text-white p-2 hover:bg-white/10 rounded transition-colors">
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                        <div className="flex rounded-lg border border-white/10 overflow-hidden" role="group" aria-label="Tone">
+                            {(Object.keys(LETTER_TONES) as LetterTone[]).map(key => (
+                                <button
+                                    key={key}
+                                    onClick={() => changeTone(key)}
+                                    disabled={polishing}
+                                    aria-pressed={tone === key}
+                                    className={`px-3 py-1.5 text-xs transition-all disabled:opacity-50 ${tone === key ? 'bg-[#d4af37]/20 text-[#d4af37] font-semibold' : 'text-white/60 hover:bg-white/5'}`}
+                                >
+                                    {LETTER_TONES[key].label}
+                                </button>
+                            ))}
+                        </div>
+                        {polishing ? (
+                            <button
+                                onClick={() => abortControllerRef.current?.abort()}
+                                className="px-3 py-1.5 bg-red-500/10 hover:bg-red-500/20 text-red-400 rounded text-xs transition-all"
+                            >
+                                Stop
+                            </button>
+                        ) : (
+                            <button
+                                onClick={polish}
+                                className="px-3 py-1.5 bg-[#d4af37]/20 hover:bg-[#d4af37]/30 text-[#d4af37] rounded text-xs font-semibold transition-all"
+                            >
+                                Polish with copilot
+                            </button>
+                        )}
+                    </div>
+
+                    {failure && (
+                        <ErrorNotice error={failure.error} onAction={{ retry: failure.retry }} onDismiss={() => setFailure(null)} />
+                    )}
+
+                    <label className="block space-y-1">
+                        <span className="text-[11px] uppercase tracking-widest text-white/50">Subject</span>
+                        <input
+                            value={draft.subject}
+                            onChange={(e) => updateDraft({ subject: e.target.value })}
+                            disabled={polishing}
+                            className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-[#d4af37]/50 disabled:opacity-60"
+                        />
+                    </label>
+                    <label className="block space-y-1">
+                        <span className="text-[11px] uppercase tracking-widest text-white/50">Letter</span>
+                        <textarea
+                            value={draft.body}
+                            onChange={(e) => updateDraft({ body: e.target.value })}
+                            readOnly={polishing}
+                            className="w-full min-h-[45vh] bg-white/5 border border-white/10 rounded-lg p-4 font-serif text-sm leading-[1.8] text-white/80 focus:outline-none focus:border-[#d4af37]/50 resize-y"
+                        />
+                    </label>
+                </div>
+
+                <div className="p-4 border-t border-white/20 flex flex-wrap items-center justify-end gap-2 flex-shrink-0">
+                    <button
+                        onClick={handleCopy}
+                        disabled={polishing}
+                        className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-white/70 rounded text-xs transition-all disabled:opacity-40"
+                    >
+                        Copy
+                    </button>
+                    {FORMATS.map(({ format, label }) => (
+                        <button
+                            key={format}
+                            onClick={() => exportLetter(draft, contractName, format)}
+                            disabled={polishing}
+                            className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-white/70 rounded text-xs transition-all disabled:opacity-40"
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card } from '@/components/ui/components';
+import type { Clause } from '@/lib/clauses';
+import { checkPlaybook, PlaybookDeviation, usePlaybookHydrated, usePlaybookStore } from '@/lib/playbook';
+
+// Fallbacks are within the playbook, so they show the preferred position to push for but no walk-away point
+function FindingRow({ finding, atFallback = false, onSelectClause }: {
+    finding: PlaybookDeviation;
+    atFallback?: boolean;
+    onSelectClause: (clauseId: string) => void;
+}) {
+    return (
+        <li className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-2 text-sm">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+                <button
+                    onClick={() => onSelectClause(finding.clauseId)}
+                    className="font-semibold text-foreground hover:underline text-left"
+                >
+                    {finding.clauseLabel}
+                </button>
+                <span className="text-xs text-muted-foreground">{finding.rule.clauseType}</span>
+            </div>
+            <ul className={`list-disc list-inside ${atFallback ? 'text-yellow-400/90' : 'text-red-400/90'}`}>
+                {finding.reasons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+            {finding.rule.preferred && (
+                <p className="text-foreground/80"><span className="text-muted-foreground">Preferred:</span> {finding.rule.preferred}</p>
+            )}
+            {!atFallback && finding.rule.walkAway && (
+                <p className="text-foreground/80"><span className="text-muted-foreground">Walk away if:</span> {finding.rule.walkAway}</p>
+            )}
+        </li>
+    );
+}
+
+/**
+ * Clauses that don't meet the team playbook, with the position to negotiate towards
+ */
+export default function PlaybookDeviations({ contractText, clauses, onSelectClause }: {
+    contractText: string;
+    clauses: Clause[];
+    onSelectClause: (clauseId: string) => void;
+}) {
+    const router = useRouter();
+    const rules = usePlaybookStore((state) => state.rules);
+    const hasHydrated = usePlaybookHydrated();
+    const { deviations, fallbacks, matchedClauses, unmatchedRules } = useMemo(
+        () => checkPlaybook(rules, contractText, clauses),
+        [rules, contractText, clauses]
+    );
+
+    if (!hasHydrated || rules.length === 0) return null;
+
+    return (
+        <Card className="p-6 space-y-4">
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+                <div>
+                    <h3 className="text-lg font-serif font-bold text-foreground">Playbook check</h3>
+                    <p className="text-xs text-muted-foreground">
+                        {matchedClauses} clause{matchedClauses === 1 ? '' : 's'} checked against {rules.length} rule{rules.length === 1 ? '' : 's'}
+                    </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {deviations.length > 0 && (
+                        <span className="px-3 py-1 rounded-full text-xs font-semibold bg-red-500/15 text-red-400">
+                            {deviations.length} deviation{deviations.length === 1 ? '' : 's'}
+                        </span>
+                    )}
+                    {fallbacks.length > 0 && (
+                        <span className="px-3 py-1 rounded-full text-xs font-semibold bg-yellow-500/15 text-yellow-400">
+                            {fallbacks.length} at fallback
+                        </span>
+                    )}
+                    {deviations.length === 0 && fallbacks.length === 0 && (
+                        <span className="px-3 py-1 rounded-full text-xs font-semibold bg-green-500/15 text-green-400">Meets the playbook</span>
+                    )}
+                </div>
+            </div>
+
+            {deviations.length + fallbacks.length > 0 && (
+                <ul className="space-y-3">
+                    {deviations.map(deviation => (
+                        <FindingRow key={`${deviation.rule.id}-${deviation.clauseId}`} finding={deviation} onSelectClause={onSelectClause} />
+                    ))}
+                    {fallbacks.map(fallback => (
+                        <FindingRow key={`${fallback.rule.id}-${fallback.clauseId}`} finding={fallback} atFallback onSelectClause={onSelectClause} />
+                    ))}
+                </ul>
+            )}
+
+            {unmatchedRules.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                    No clause found for: {unmatchedRules.map(rule => rule.clauseType).join(', ')}
+                </p>
+            )}
+            <button onClick={() => router.push('/playbook')} className="text-xs text-muted-foreground hover:text-foreground underline transition-colors">
+                Edit playbook
+            </button>
+        </Card>
+    );
+}
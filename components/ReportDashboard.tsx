@@ -1,36 +1,79 @@
 'use client';
 
-import { AnalysisResult, explainRisk, redlineClause } from '@/lib/api';
+import { AnalysisResult, redlineClause, redlineClauses } from '@/lib/api';
 import { Card, Badge, HealthGauge } from '@/components/ui/components';
-import { useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
+import { describeError, ErrorDescription, handleError } from '@/lib/errorHandler';
+import { downloadBlob, withFileSuffix } from '@/lib/download';
+import { showToast } from '@/components/Toast';
+import JurisdictionPicker from '@/components/JurisdictionPicker';
+import { getJurisdictionMismatch } from '@/lib/jurisdictions';
+import { findClause, flattenClauses, formatClauseLabel, getClauseText, parseClauses } from '@/lib/clauses';
+import { AnalysisRun, convertAnalysisToFlags, FlagWithText } from '@/lib/contract-store';
+import type { FlagDelta, FlagStatus } from '@/lib/flags';
+import ClauseOutline from '@/components/ClauseOutline';
+import FlagDeltaSummary, { STATUS_STYLES } from '@/components/FlagDeltaSummary';
+import AnalysisProgress from '@/components/AnalysisProgress';
+import PlaybookDeviations from '@/components/PlaybookDeviations';
+import RiskExplanation from '@/components/RiskExplanation';
+import ErrorNotice from '@/components/ErrorNotice';
 
 import { useRouter } from 'next/navigation';
 
-export default function ReportDashboard({ data, originalFile, jurisdiction }: { data: AnalysisResult, originalFile: File | null, jurisdiction: string }) {
+interface ReportDashboardProps {
+    contractId: string;
+    data: AnalysisResult;
+    contractText: string;
+    flags: FlagWithText[]; // Store flags, carrying each flag's clause
+    flagDelta: FlagDelta<FlagWithText> | null; // Comparison with the previous analysis, after a re-analysis
+    analysisRuns: AnalysisRun[]; // Every analysis of this contract, oldest first
+    originalFile: File | null;
+    jurisdiction: string; // User-selected governing law, used for redlines
+    onJurisdictionChange: (jurisdiction: string) => void;
+}
+
+export default function ReportDashboard({ contractId, data, contractText, flags, flagDelta, analysisRuns, originalFile, jurisdiction, onJurisdictionChange }: ReportDashboardProps) {
     const router = useRouter();
     const [activeTab, setActiveTab] = useState<'risks' | 'details'>('risks');
-    const [explainingRiskId, setExplainingRiskId] = useState<number | null>(null);
-    const [explanations, setExplanations] = useState<Record<number, string>>({});
     const [showOriginalText, setShowOriginalText] = useState(false); // Toggle for original text
 
     // Negotiation List State
     const [negotiationList, setNegotiationList] = useState<{ text: string, type: string }[]>([]);
 
-    const handleExplain = async (riskText: string, idx: number) => {
-        if (explanations[idx]) return; // Already explained
+    // Redline State
+    const [redliningTarget, setRedliningTarget] = useState<number | 'batch' | null>(null);
+    // Last failed redline, shown where it was started so it can be retried
+    const [redlineError, setRedlineError] = useState<{ target: number | 'batch'; indices: number[]; error: ErrorDescription } | null>(null);
+    const [redlineSelection, setRedlineSelection] = useState<number[]>([]);
+    const canRedline = !!originalFile && originalFile.name.toLowerCase().endsWith('.docx');
 
-        setExplainingRiskId(idx);
-        try {
-            const context = `Contract Type: ${data.contract_type}. Summary: ${data.plain_english_summary}`;
-            const explanation = await explainRisk(riskText, context);
-            setExplanations(prev => ({ ...prev, [idx]: explanation }));
-        } catch (error) {
-            console.error("Failed to explain risk:", error);
-        } finally {
-            setExplainingRiskId(null);
-        }
+    const jurisdictionMismatch = getJurisdictionMismatch(jurisdiction, data.jurisdiction);
+
+    // Clause outline: selecting a clause shows its text and the flags inside it
+    const clauses = useMemo(() => parseClauses(contractText), [contractText]);
+    const [focusedClauseId, setFocusedClauseId] = useState<string | null>(null);
+    const focusedClause = focusedClauseId ? findClause(clauses, focusedClauseId) : null;
+    const flagListRef = useRef<HTMLDivElement>(null);
+
+    const jumpToClause = (clauseId: string) => {
+        setFocusedClauseId(clauseId);
+        setActiveTab('risks');
+        flagListRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    };
+
+    const clauseIdFor = (flagId: string) => flags.find(f => f.id === flagId)?.clauseId ?? null;
+
+    const isInFocusedClause = (flagId: string) => {
+        if (!focusedClause) return true;
+        const clauseId = clauseIdFor(flagId);
+        return !!clauseId && flattenClauses([focusedClause]).some(c => c.id === clauseId);
     };
 
+    const deltaStatusFor = (flagId: string): FlagStatus | null =>
+        flagDelta?.changes.find(change => change.flag.id === flagId && change.status !== 'resolved')?.status ?? null;
+
+    const explainContext = `Contract Type: ${data.contract_type}. Summary: ${data.plain_english_summary}`;
+
     const toggleNegotiationItem = (text: string, type: string) => {
         setNegotiationList(prev => {
             const exists = prev.find(item => item.text === text);
@@ -42,33 +85,54 @@ export default function ReportDashboard({ data, originalFile, jurisdiction }: {
         });
     };
 
+    const toggleRedlineSelection = (idx: number) => {
+        setRedlineSelection(prev => prev.includes(idx) ? prev.filter(i => i !== idx) : [...prev, idx]);
+    };
+
+    // Redline one clause, or every selected clause into a single tracked-changes document
+    const handleRedline = async (indices: number[], target: number | 'batch') => {
+        if (!originalFile || !canRedline || redliningTarget !== null) return;
+
+        const targets = indices
+            .map(i => allFlags[i])
+            .filter(flag => flag && flag.original_text && flag.original_text !== 'N/A');
+
+        if (targets.length === 0) {
+            showToast('The selected flags have no clause text to redline.', 'warning');
+            return;
+        }
+
+        setRedliningTarget(target);
+        setRedlineError(null);
+        try {
+            const blob = targets.length === 1
+                ? await redlineClause(originalFile, targets[0].original_text, jurisdiction, targets[0].analysis)
+                : await redlineClauses(
+                    originalFile,
+                    targets.map(flag => ({ originalText: flag.original_text, riskContext: flag.analysis })),
+                    jurisdiction
+                );
+
+            downloadBlob(blob, withFileSuffix(originalFile.name, 'redlined', 'docx'));
+            showToast(`✍️ Redlined ${targets.length} clause${targets.length === 1 ? '' : 's'}. Your document is downloading.`, 'success');
+
+            if (target === 'batch') setRedlineSelection([]);
+        } catch (error) {
+            handleError(error, 'Redlining', false);
+            setRedlineError({ target, indices, error: describeError(error) });
+        } finally {
+            setRedliningTarget(null);
+        }
+    };
+
     const handleDraftNegotiation = () => {
         // Navigate to negotiation - it will read flags directly from Zustand store
-        router.push('/negotiation');
+        router.push(`/negotiation/${contractId}`);
     };
 
 
-    const allFlags = [
-        ...(data.red_flags || []).map(f => {
-            // Handle both old string format and new object format
-            if (typeof f === 'string') {
-                return { type: 'red' as const, analysis: f, original_text: 'N/A' };
-            }
-            return { type: 'red' as const, analysis: f.analysis, original_text: f.original_text };
-        }),
-        ...(data.yellow_flags || []).map(f => {
-            if (typeof f === 'string') {
-                return { type: 'yellow' as const, analysis: f, original_text: 'N/A' };
-            }
-            return { type: 'yellow' as const, analysis: f.analysis, original_text: f.original_text };
-        }),
-        ...(data.green_flags || []).map(f => {
-            if (typeof f === 'string') {
-                return { type: 'green' as const, analysis: f, original_text: 'N/A' };
-            }
-            return { type: 'green' as const, analysis: f.analysis, original_text: f.original_text };
-        }),
-    ];
+    // Same content-derived IDs as the store's flags, including ones already negotiated away
+    const allFlags = convertAnalysisToFlags(data);
 
     return (
         <div className="space-y-12 animate-in fade-in duration-700 relative">
@@ -98,14 +162,22 @@ export default function ReportDashboard({ data, originalFile, jurisdiction }: {
                         </div>
                         <h1 className="text-5xl font-serif font-bold text-gradient-gold mb-4">{data.contract_type}</h1>
 
-                        {/* Jurisdiction Display */}
-                        <div className="flex items-center gap-2 mb-6">
-                            <svg className="w-4 h-4 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3" />
-                            </svg>
-                            <span className="text-sm font-medium text-muted-foreground">
-                                Jurisdiction: <span className="text-foreground">{jurisdiction}</span>
-                            </span>
+                        {/* Jurisdiction: the user's choice drives redlines and negotiation */}
+                        <div className="mb-6 space-y-2 max-w-md">
+                            <JurisdictionPicker value={jurisdiction} onChange={onJurisdictionChange} />
+                            <div className="flex items-center gap-2">
+                                <svg className="w-4 h-4 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3" />
+                                </svg>
+                                <span className="text-xs font-medium text-muted-foreground">
+                                    Detected in contract: <span className="text-foreground">{data.jurisdiction || 'Not Specified'}</span>
+                                </span>
+                            </div>
+                            {jurisdictionMismatch && (
+                                <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30 text-xs text-yellow-300">
+                                    ⚠️ {jurisdictionMismatch} Redlines and negotiation will use your selection.
+                                </div>
+                            )}
                         </div>
 
                         <p className="text-lg text-muted-foreground leading-relaxed max-w-2xl">
@@ -128,11 +200,17 @@ export default function ReportDashboard({ data, originalFile, jurisdiction }: {
                 </Card>
             </div>
 
+            {/* Progress across re-analyses */}
+            {analysisRuns.length > 1 && <AnalysisProgress runs={analysisRuns} />}
+
             {/* Main Content Area */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-10">
 
                 {/* Left Column: Action Center (Flags) */}
                 <div className="lg:col-span-2 space-y-8">
+                    {flagDelta && <FlagDeltaSummary delta={flagDelta} />}
+                    <PlaybookDeviations contractText={contractText} clauses={clauses} onSelectClause={jumpToClause} />
+
                     <div className="space-y-4">
                         <h2 className="text-2xl font-serif font-bold text-foreground">
                             Action Center
@@ -175,16 +253,71 @@ export default function ReportDashboard({ data, originalFile, jurisdiction }: {
                         </div>
                     </div>
                     {/* Missing div tag added here */}
-                    <div className="space-y-5">
+                    <div ref={flagListRef} className="space-y-5 scroll-mt-8">
                         {activeTab === 'risks' && (
                             <>
+                                {redlineSelection.length > 0 && (
+                                    <div className="flex items-center justify-between gap-4 p-4 rounded-xl bg-secondary/10 border border-secondary/40">
+                                        <span className="text-sm text-foreground">
+                                            {redlineSelection.length} clause{redlineSelection.length === 1 ? '' : 's'} selected for redlining
+                                        </span>
+                                        <div className="flex items-center gap-3">
+                                            <button
+                                                onClick={() => setRedlineSelection([])}
+                                                className="text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+                                            >
+                                                Clear
+                                            </button>
+                                            <button
+                                                onClick={() => handleRedline(redlineSelection, 'batch')}
+                                                disabled={redliningTarget !== null}
+                                                className="px-4 py-2 rounded-lg bg-secondary text-secondary-foreground text-xs font-bold hover:bg-secondary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                            >
+                                                {redliningTarget === 'batch' ? 'Redlining...' : 'Redline Selected (.docx)'}
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                                {redlineError?.target === 'batch' && (
+                                    <ErrorNotice
+                                        error={redlineError.error}
+                                        onAction={{ retry: () => handleRedline(redlineError.indices, 'batch') }}
+                                        onDismiss={() => setRedlineError(null)}
+                                    />
+                                )}
+                                {focusedClause && (
+                                    <Card className="p-6 border-secondary/40 bg-secondary/5">
+                                        <div className="flex items-start justify-between gap-4 mb-3">
+                                            <div>
+                                                <div className="text-[10px] text-secondary uppercase tracking-widest mb-1">Clause</div>
+                                                <h3 className="text-lg font-serif font-bold text-foreground">{formatClauseLabel(focusedClause)}</h3>
+                                            </div>
+                                            <button
+                                                onClick={() => setFocusedClauseId(null)}
+                                                className="text-xs font-medium text-muted-foreground hover:text-foreground transition-colors whitespace-nowrap"
+                                            >
+                                                Show all flags
+                                            </button>
+                                        </div>
+                                        <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap max-h-64 overflow-y-auto">
+                                            {getClauseText(contractText, focusedClause)}
+                                        </p>
+                                        {!allFlags.some(flag => isInFocusedClause(flag.id)) && (
+                                            <p className="mt-4 text-xs text-muted-foreground italic">No flags in this clause.</p>
+                                        )}
+                                    </Card>
+                                )}
                                 {allFlags.length === 0 && (
                                     <div className="p-12 text-center text-muted-foreground bg-white/5 rounded-2xl border border-dashed border-white/10">
                                         No significant flags found.
                                     </div>
                                 )}
                                 {allFlags.map((flag, idx) => {
+                                    if (!isInFocusedClause(flag.id)) return null;
                                     const isSelected = negotiationList.some(item => item.text === flag.analysis);
+                                    const flagClauseId = clauseIdFor(flag.id);
+                                    const flagClause = flagClauseId ? findClause(clauses, flagClauseId) : null;
+                                    const status = deltaStatusFor(flag.id);
                                     return (
                                         <Card key={idx} className={`p-6 group transition-all duration-300 border-white/5 hover:border-white/10 ${isSelected ? 'bg-secondary/10 border-secondary/50' : 'hover:bg-white/10'}`}>
                                             <div className="flex items-start gap-5">
@@ -195,42 +328,73 @@ export default function ReportDashboard({ data, originalFile, jurisdiction }: {
                                                         <p className="text-foreground/90 font-medium leading-relaxed text-lg">
                                                             {showOriginalText ? flag.original_text : flag.analysis}
                                                         </p>
-                                                        <Badge variant={flag.type as any}>{flag.type.toUpperCase()}</Badge>
+                                                        <div className="flex items-center gap-2 shrink-0">
+                                                            {status && status !== 'open' && (
+                                                                <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wide ${STATUS_STYLES[status].className}`}>
+                                                                    {STATUS_STYLES[status].label}
+                                                                </span>
+                                                            )}
+                                                            <Badge variant={flag.type as any}>{flag.type.toUpperCase()}</Badge>
+                                                        </div>
                                                     </div>
 
+                                                    {flagClause && (
+                                                        <button
+                                                            onClick={() => jumpToClause(flagClause.id)}
+                                                            className="text-xs text-muted-foreground hover:text-secondary transition-colors"
+                                                        >
+                                                            § {formatClauseLabel(flagClause)}
+                                                        </button>
+                                                    )}
+
                                                     {/* Agentic Actions */}
                                                     {(flag.type === 'red' || flag.type === 'yellow') && (
                                                         <div className="flex flex-col gap-4 pt-2">
-                                                            <div className="flex gap-4">
+                                                            <div className="flex flex-wrap items-center gap-4">
                                                                 <button
-                                                                    onClick={() => handleExplain(flag.analysis, idx)}
-                                                                    disabled={explainingRiskId === idx}
+                                                                    onClick={() => handleRedline([idx], idx)}
+                                                                    disabled={!canRedline || redliningTarget !== null}
+                                                                    title={canRedline ? 'Download a tracked-changes DOCX for this clause' : 'Redlining requires the original .docx upload'}
                                                                     className="text-xs font-semibold text-primary/80 hover:text-secondary transition-colors flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-white/5 border border-transparent hover:border-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
                                                                 >
-                                                                    {explainingRiskId === idx ? (
+                                                                    {redliningTarget === idx ? (
                                                                         <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                                                                             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                                                                             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                                                                         </svg>
                                                                     ) : (
-                                                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+                                                                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"></path></svg>
                                                                     )}
-                                                                    Explain Risk
+                                                                    Redline this clause
                                                                 </button>
+
+                                                                {canRedline && (
+                                                                    <label className="ml-auto flex items-center gap-2 text-xs text-muted-foreground cursor-pointer select-none">
+                                                                        <input
+                                                                            type="checkbox"
+                                                                            checked={redlineSelection.includes(idx)}
+                                                                            onChange={() => toggleRedlineSelection(idx)}
+                                                                            className="accent-[#d4af37]"
+                                                                        />
+                                                                        Add to batch
+                                                                    </label>
+                                                                )}
                                                             </div>
 
-                                                            {/* Explanation Panel */}
-                                                            {explanations[idx] && (
-                                                                <div className="mt-2 p-4 rounded-lg bg-white/5 border-l-2 border-secondary animate-in slide-in-from-top-2 duration-300">
-                                                                    <div className="flex items-center gap-2 mb-2 text-secondary text-xs font-bold uppercase tracking-widest">
-                                                                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"></path></svg>
-                                                                        LegalSay Analysis
-                                                                    </div>
-                                                                    <p className="text-sm text-muted-foreground leading-relaxed">
-                                                                        {explanations[idx]}
-                                                                    </p>
-                                                                </div>
+                                                            {redlineError?.target === idx && (
+                                                                <ErrorNotice
+                                                                    error={redlineError.error}
+                                                                    onAction={{ retry: () => handleRedline(redlineError.indices, idx) }}
+                                                                    onDismiss={() => setRedlineError(null)}
+                                                                />
                                                             )}
+
+                                                            <RiskExplanation
+                                                                contractId={contractId}
+                                                                flag={flag}
+                                                                contractContext={explainContext}
+                                                                clauseText={flagClause ? getClauseText(contractText, flagClause) : undefined}
+                                                            />
                                                         </div>
                                                     )}
                                                 </div>
@@ -275,6 +439,14 @@ export default function ReportDashboard({ data, originalFile, jurisdiction }: {
                             </div>
                         </div>
                     </Card>
+
+                    <div className="border-b border-white/5 pb-4">
+                        <h2 className="text-2xl font-serif font-bold text-foreground">Outline</h2>
+                    </div>
+
+                    <Card className="p-3 bg-card/30 max-h-[60vh] overflow-y-auto lg:sticky lg:top-8">
+                        <ClauseOutline clauses={clauses} flags={flags} activeClauseId={focusedClauseId} onSelect={jumpToClause} />
+                    </Card>
                 </div>
 
             </div>
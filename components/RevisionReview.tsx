@@ -0,0 +1,143 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { DiffViewer } from '@/components/DiffViewer';
+import { applyHunkDecisions, checkChangesOutsideRanges, computeRevisionSegments, getRevisionHunks, HunkDecision } from '@/lib/revisions';
+
+interface RevisionReviewProps {
+    baseText: string;
+    proposedText: string;
+    isStreaming: boolean;
+    // Ranges of baseText a clause-scoped edit was limited to; changes elsewhere need explicit confirmation
+    scopeRanges?: { start: number; end: number }[] | null;
+    onReplaceProposal?: (text: string) => void;
+    onCommit: (text: string) => void;
+    onDiscard: () => void;
+}
+
+/**
+ * Review panel for an AI-proposed edit.
+ * Nothing reaches the contract until the user accepts hunks and applies them.
+ */
+export default function RevisionReview({ baseText, proposedText, isStreaming, scopeRanges, onReplaceProposal, onCommit, onDiscard }: RevisionReviewProps) {
+    const [decisions, setDecisions] = useState<Record<number, HunkDecision>>({});
+
+    // Diffing a whole contract on every streamed delta is expensive, so wait for the edit to finish
+    const segments = useMemo(
+        () => (isStreaming ? [] : computeRevisionSegments(baseText, proposedText)),
+        [baseText, proposedText, isStreaming]
+    );
+    const hunks = useMemo(() => getRevisionHunks(segments), [segments]);
+    const scopeCheck = useMemo(
+        () => (isStreaming || !scopeRanges ? null : checkChangesOutsideRanges(baseText, proposedText, scopeRanges)),
+        [baseText, proposedText, isStreaming, scopeRanges]
+    );
+
+    const acceptedCount = hunks.filter(h => decisions[h.id] === 'accepted').length;
+    const decidedCount = hunks.filter(h => decisions[h.id]).length;
+
+    const decide = (hunkId: number, decision: HunkDecision) => {
+        setDecisions(prev => ({ ...prev, [hunkId]: decision }));
+    };
+
+    // A clause edit that reached other clauses is only applied once the user says so
+    const confirmScope = (text: string) => {
+        if (!scopeRanges) return true;
+        const { outsideChanges } = checkChangesOutsideRanges(baseText, text, scopeRanges);
+        return outsideChanges === 0 || window.confirm(
+            `This applies ${outsideChanges} change${outsideChanges === 1 ? '' : 's'} outside the clauses you are negotiating. Apply anyway?`
+        );
+    };
+
+    const handleAcceptAll = () => {
+        if (confirmScope(proposedText)) onCommit(proposedText);
+    };
+
+    const handleApply = () => {
+        if (acceptedCount === 0) {
+            onDiscard();
+            return;
+        }
+        const text = applyHunkDecisions(segments, decisions);
+        if (confirmScope(text)) onCommit(text);
+    };
+
+    if (isStreaming) {
+        return (
+            <div className="space-y-4">
+                <div className="flex items-center gap-2 text-xs text-[#d4af37]">
+                    <span className="w-2 h-2 rounded-full bg-[#d4af37] animate-pulse" />
+                    Receiving proposed edit...
+                </div>
+                <div className="font-serif text-sm leading-[2.2] text-white/70 whitespace-pre-wrap">
+                    {proposedText}
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="sticky top-0 z-10 -mx-2 px-3 py-3 rounded-lg bg-[#13151f]/95 border border-white/10 backdrop-blur flex flex-wrap items-center justify-between gap-3">
+                <div>
+                    <p className="text-sm font-semibold text-white">Proposed changes</p>
+                    <p className="text-[11px] text-white/50">
+                        {hunks.length === 0
+                            ? 'The proposal matches the current contract.'
+                            : `${hunks.length} change${hunks.length === 1 ? '' : 's'} • ${decidedCount} reviewed • ${acceptedCount} accepted`}
+                    </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        onClick={onDiscard}
+                        className="px-3 py-1.5 bg-red-500/10 hover:bg-red-500/20 text-red-400 rounded text-xs transition-all"
+                    >
+                        Reject All
+                    </button>
+                    <button
+                        onClick={handleAcceptAll}
+                        disabled={hunks.length === 0}
+                        className="px-3 py-1.5 bg-green-500/10 hover:bg-green-500/20 text-green-400 rounded text-xs transition-all disabled:opacity-50"
+                    >
+                        Accept All
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        disabled={decidedCount === 0}
+                        className="px-3 py-1.5 bg-[#d4af37]/20 hover:bg-[#d4af37]/30 text-[#d4af37] rounded text-xs font-semibold transition-all disabled:opacity-50"
+                    >
+                        Apply Reviewed ({acceptedCount})
+                    </button>
+                </div>
+            </div>
+
+            {scopeCheck && scopeCheck.outsideChanges > 0 && (
+                <div role="alert" className="p-3 rounded-lg border border-yellow-500/40 bg-yellow-500/10 text-xs text-yellow-200 space-y-2">
+                    <p className="font-semibold">
+                        ⚠ Full rewrite: {scopeCheck.outsideChanges} change{scopeCheck.outsideChanges === 1 ? '' : 's'} outside the selected clauses
+                    </p>
+                    <p className="text-yellow-200/80 leading-relaxed">
+                        The copilot was asked to edit only the clauses you selected but changed text elsewhere too. Review those changes carefully.
+                    </p>
+                    {onReplaceProposal && (
+                        <button
+                            onClick={() => onReplaceProposal(scopeCheck.withinRanges)}
+                            className="px-3 py-1.5 rounded border border-yellow-500/40 hover:bg-yellow-500/20 font-semibold transition-colors"
+                        >
+                            Keep selected clauses only
+                        </button>
+                    )}
+                </div>
+            )}
+
+            <DiffViewer
+                oldText={baseText}
+                newText={proposedText}
+                segments={segments}
+                decisions={decisions}
+                onDecide={decide}
+                className="font-serif leading-[2.2] text-white/70"
+            />
+        </div>
+    );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import { explainRisk } from '@/lib/api';
+import { describeError, ErrorDescription, handleError, isAbortError } from '@/lib/errorHandler';
+import { useContractStore } from '@/lib/contract-store';
+import ErrorNotice from '@/components/ErrorNotice';
+
+// Whole articles can be long; the start of the clause is enough context
+const MAX_CLAUSE_CONTEXT = 4000;
+
+interface RiskExplanationProps {
+    contractId: string;
+    flag: { id: string; analysis: string; original_text: string };
+    contractContext: string; // Contract type and summary
+    clauseText?: string; // The clause the flag's quote sits in
+    compact?: boolean; // Smaller styling for the negotiation side panel
+}
+
+const Spinner = () => (
+    <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+    </svg>
+);
+
+/**
+ * "Explain Risk" for one flag: cached in the workspace by flag ID, with regenerate and follow-up questions
+ */
+export default function RiskExplanation({ contractId, flag, contractContext, clauseText, compact = false }: RiskExplanationProps) {
+    const explanation = useContractStore((state) => state.contracts[contractId]?.explanations[flag.id]);
+    const setExplanation = useContractStore((state) => state.setExplanation);
+    const addExplanationFollowUp = useContractStore((state) => state.addExplanationFollowUp);
+
+    const [loading, setLoading] = useState<'explain' | 'follow-up' | null>(null);
+    const [question, setQuestion] = useState('');
+    const [failure, setFailure] = useState<{ error: ErrorDescription; retry: () => void } | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    // Cancel an in-flight request when the card goes away
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const request = async (kind: 'explain' | 'follow-up', followUpQuestion?: string) => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setLoading(kind);
+        setFailure(null);
+
+        try {
+            const answer = await explainRisk(flag.analysis, contractContext, {
+                signal: controller.signal,
+                originalText: flag.original_text !== 'N/A' ? flag.original_text : undefined,
+                clauseText: clauseText?.slice(0, MAX_CLAUSE_CONTEXT),
+                question: followUpQuestion,
+                previousExplanation: followUpQuestion ? explanation?.text : undefined,
+            });
+            if (followUpQuestion) {
+                addExplanationFollowUp(contractId, flag.id, { question: followUpQuestion, answer });
+                setQuestion('');
+            } else {
+                setExplanation(contractId, flag.id, answer);
+            }
+        } catch (error) {
+            if (!isAbortError(error)) {
+                handleError(error, 'Explain Risk', false);
+                setFailure({ error: describeError(error), retry: () => request(kind, followUpQuestion) });
+            }
+        } finally {
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+                setLoading(null);
+            }
+        }
+    };
+
+    const handleFollowUp = (e: FormEvent) => {
+        e.preventDefault();
+        if (question.trim() && !loading) request('follow-up', question.trim());
+    };
+
+    const textSize = compact ? 'text-xs' : 'text-sm';
+
+    const failureNotice = failure && (
+        <ErrorNotice
+            error={failure.error}
+            onAction={{ retry: failure.retry }}
+            onDismiss={() => setFailure(null)}
+            className={`mt-2 ${compact ? 'text-xs' : ''}`}
+        />
+    );
+
+    if (!explanation) {
+        return (
+            <>
+                <button
+                    onClick={() => request('explain')}
+                    disabled={loading !== null}
+                    className={`${compact ? 'text-[11px] px-2 py-1' : 'text-xs px-3 py-2'} font-semibold text-primary/80 hover:text-secondary transition-colors flex items-center gap-2 rounded-lg hover:bg-white/5 border border-transparent hover:border-white/10 disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                    {loading ? <Spinner /> : (
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+                    )}
+                    Explain Risk
+                </button>
+                {failureNotice}
+            </>
+        );
+    }
+
+    return (
+        <div className={`mt-2 ${compact ? 'p-3' : 'p-4'} rounded-lg bg-white/5 border-l-2 border-secondary animate-in slide-in-from-top-2 duration-300 space-y-3`}>
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-secondary text-xs font-bold uppercase tracking-widest">
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"></path></svg>
+                    LegalSay Analysis
+                </div>
+                <button
+                    onClick={() => request('explain')}
+                    disabled={loading !== null}
+                    title="Replace this explanation with a new one"
+                    className="text-[11px] text-muted-foreground hover:text-secondary transition-colors flex items-center gap-1 disabled:opacity-50"
+                >
+                    {loading === 'explain' && <Spinner />}
+                    Regenerate
+                </button>
+            </div>
+
+            <p className={`${textSize} text-muted-foreground leading-relaxed whitespace-pre-wrap`}>{explanation.text}</p>
+
+            {explanation.followUps.map((followUp, idx) => (
+                <div key={idx} className="space-y-1 pt-2 border-t border-white/5">
+                    <p className={`${textSize} font-semibold text-foreground/90`}>{followUp.question}</p>
+                    <p className={`${textSize} text-muted-foreground leading-relaxed whitespace-pre-wrap`}>{followUp.answer}</p>
+                </div>
+            ))}
+
+            <form onSubmit={handleFollowUp} className="flex items-center gap-2 pt-1">
+                <input
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    placeholder="Ask a follow-up question…"
+                    disabled={loading !== null}
+                    className={`flex-1 min-w-0 bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 ${textSize} text-foreground placeholder:text-muted-foreground/60 focus:outline-none focus:border-secondary/60 disabled:opacity-50`}
+                />
+                <button
+                    type="submit"
+                    disabled={!question.trim() || loading !== null}
+                    className="text-xs font-semibold text-secondary hover:text-secondary/80 px-2 py-1.5 flex items-center gap-1 disabled:opacity-40"
+                >
+                    {loading === 'follow-up' && <Spinner />}
+                    Ask
+                </button>
+            </form>
+            {failureNotice}
+        </div>
+    );
+}
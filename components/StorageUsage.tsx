@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getStorageUsage } from '@/lib/idb-storage';
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+/**
+ * Shows how much browser storage saved contracts and uploads take up.
+ * `refreshKey` re-reads the estimate, e.g. after contracts are added or deleted.
+ */
+export default function StorageUsage({ refreshKey }: { refreshKey?: unknown }) {
+    const [estimate, setEstimate] = useState<{ usage: number; quota: number } | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getStorageUsage()
+            .then(result => {
+                if (!cancelled) setEstimate(result);
+            })
+            .catch(() => { });
+        return () => {
+            cancelled = true;
+        };
+    }, [refreshKey]);
+
+    if (!estimate || estimate.quota === 0) return null;
+
+    const percent = Math.min(100, (estimate.usage / estimate.quota) * 100);
+
+    return (
+        <div className="space-y-1.5 min-w-[200px]">
+            <div className="flex justify-between text-[10px] uppercase tracking-widest text-muted-foreground">
+                <span>Local storage</span>
+                <span>{formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                <div
+                    className={`h-full rounded-full ${percent > 80 ? 'bg-red-400' : percent > 50 ? 'bg-yellow-400' : 'bg-secondary'}`}
+                    style={{ width: `${Math.max(percent, 1)}%` }}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useState } from 'react';
+import { NegotiationStrategy, STRATEGY_SECTIONS } from '@/lib/strategy';
+
+interface StrategyCardProps {
+    strategy: NegotiationStrategy;
+    defaultOpen?: boolean;
+    compact?: boolean; // Smaller text for the desktop copilot panel
+}
+
+const SECTION_STYLES: Record<string, string> = {
+    leverage: 'text-green-400',
+    fallbacks: 'text-yellow-400',
+    concessions: 'text-red-300',
+};
+
+/**
+ * The agent's plan for a reply: overall approach, leverage, fallback positions and concessions.
+ * Collapsed it shows just the approach, so older turns don't crowd the chat.
+ */
+export default function StrategyCard({ strategy, defaultOpen = false, compact = false }: StrategyCardProps) {
+    const [open, setOpen] = useState(defaultOpen);
+    const textSize = compact ? 'text-xs' : 'text-sm';
+
+    const sections = [
+        ...STRATEGY_SECTIONS.map(({ key, label }) => ({ key, label, items: strategy[key] })),
+        ...strategy.other.map(({ label, items }) => ({ key: label, label, items })),
+    ].filter(section => section.items.length > 0);
+
+    return (
+        <div className={`w-full max-w-[85%] rounded-xl border border-[#d4af37]/30 bg-[#d4af37]/5 ${textSize}`}>
+            <button
+                onClick={() => setOpen(!open)}
+                aria-expanded={open}
+                className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left"
+            >
+                <span className="flex items-center gap-2 text-[#d4af37] text-[11px] font-bold uppercase tracking-widest">
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"></path></svg>
+                    Strategy
+                </span>
+                <svg className={`w-4 h-4 text-white/50 transition-transform ${open ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
+            </button>
+
+            {strategy.summary && (
+                <p className={`px-3 pb-2 text-white/80 leading-relaxed whitespace-pre-wrap ${open ? '' : 'line-clamp-2'}`}>{strategy.summary}</p>
+            )}
+
+            {open && sections.length > 0 && (
+                <div className="px-3 pb-3 space-y-3 border-t border-white/10 pt-2">
+                    {sections.map(section => (
+                        <div key={section.key}>
+                            <h4 className={`text-[10px] font-semibold uppercase tracking-widest mb-1 ${SECTION_STYLES[section.key] ?? 'text-white/60'}`}>
+                                {section.label}
+                            </h4>
+                            <ul className="space-y-1 list-disc pl-4 text-white/80 leading-relaxed">
+                                {section.items.map((item, idx) => <li key={idx}>{item}</li>)}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
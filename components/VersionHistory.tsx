@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import { useActiveContract, useContractStore, VersionSource } from '@/lib/contract-store';
+import { DiffViewer } from '@/components/DiffViewer';
+
+const SOURCE_LABELS: Record<VersionSource, string> = {
+    upload: 'Upload',
+    'ai-edit': 'AI Edit',
+    reanalysis: 'Re-analysis',
+    manual: 'Manual',
+};
+
+/**
+ * Timeline of contract snapshots with undo/redo, restore and compare
+ */
+export default function VersionHistory({ onClose }: { onClose: () => void }) {
+    const contract = useActiveContract();
+    const { undo, redo, restoreVersion } = useContractStore();
+    const versions = contract?.versions ?? [];
+    const versionIndex = contract?.versionIndex ?? -1;
+
+    // Compare the previous snapshot with the current one by default
+    const [compareFromId, setCompareFromId] = useState<string>(versions[Math.max(versionIndex - 1, 0)]?.id ?? '');
+    const [compareToId, setCompareToId] = useState<string>(versions[versionIndex]?.id ?? '');
+
+    const compareFrom = versions.find(v => v.id === compareFromId);
+    const compareTo = versions.find(v => v.id === compareToId);
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="w-full max-w-4xl max-h-[90vh] bg-[#13151f] border border-white/20 rounded-xl shadow-2xl flex flex-col overflow-hidden"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="p-4 border-b border-white/20 flex items-center justify-between flex-shrink-0">
+                    <div>
+                        <h2 className="text-base font-semibold text-white">Version History</h2>
+                        <p className="text-xs text-white/50">{versions.length} snapshot{versions.length === 1 ? '' : 's'}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={undo}
+                            disabled={versionIndex <= 0}
+                            className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-white/70 rounded text-xs transition-all disabled:opacity-40"
+                        >
+                            ↶ Undo
+                        </button>
+                        <button
+                            onClick={redo}
+                            disabled={versionIndex >= versions.length - 1}
+                            className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-white/70 rounded text-xs transition-all disabled:opacity-40"
+                        >
+                            Redo ↷
+                        </button>
+                        <button onClick={onClose} className="text-white/50 hover:text-white p-2 hover:bg-white/10 rounded transition-colors">
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path>
+                            </svg>
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto grid grid-cols-1 md:grid-cols-[280px_1fr]">
+                    {/* Timeline */}
+                    <div className="border-b md:border-b-0 md:border-r border-white/10 p-3 space-y-2">
+                        {versions.length === 0 && (
+                            <p className="text-xs text-white/40 italic p-2">No snapshots yet.</p>
+                        )}
+                        {[...versions].reverse().map((version) => {
+                            const index = versions.indexOf(version);
+                            const isCurrent = index === versionIndex;
+                            const isRedo = index > versionIndex;
+                            return (
+                                <div
+                                    key={version.id}
+                                    className={`p-3 rounded-lg border transition-all ${isCurrent ? 'border-[#d4af37]/60 bg-[#d4af37]/10' : 'border-white/10 bg-white/5'} ${isRedo ? 'opacity-60' : ''}`}
+                                >
+                                    <div className="flex items-start justify-between gap-2">
+                                        <div className="min-w-0">
+                                            <p className="text-xs font-semibold text-white truncate">{version.label}</p>
+                                            <p className="text-[10px] text-white/40">{new Date(version.createdAt).toLocaleString()}</p>
+                                        </div>
+                                        <span className="text-[10px] px-2 py-0.5 rounded-full bg-white/10 text-white/60 flex-shrink-0">
+                                            {SOURCE_LABELS[version.source]}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center gap-3 mt-2 text-[10px]">
+                                        {isCurrent ? (
+                                            <span className="text-[#d4af37] font-semibold uppercase tracking-widest">Current</span>
+                                        ) : (
+                                            <button onClick={() => restoreVersion(version.id)} className="text-[#d4af37] hover:underline">
+                                                Restore
+                                            </button>
+                                        )}
+                                        <button onClick={() => setCompareFromId(version.id)} className={compareFromId === version.id ? 'text-red-400' : 'text-white/50 hover:text-white'}>
+                                            Compare from
+                                        </button>
+                                        <button onClick={() => setCompareToId(version.id)} className={compareToId === version.id ? 'text-green-400' : 'text-white/50 hover:text-white'}>
+                                            to
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {/* Diff */}
+                    <div className="p-4">
+                        {compareFrom && compareTo ? (
+                            <>
+                                <p className="text-xs text-white/50 mb-3">
+                                    <span className="text-red-400">{compareFrom.label}</span> → <span className="text-green-400">{compareTo.label}</span>
+                                </p>
+                                {compareFrom.id === compareTo.id ? (
+                                    <p className="text-xs text-white/40 italic">Pick two different versions to compare.</p>
+                                ) : (
+                                    <DiffViewer oldText={compareFrom.content} newText={compareTo.content} className="text-xs" />
+                                )}
+                            </>
+                        ) : (
+                            <p className="text-xs text-white/40 italic">Pick two versions to compare.</p>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
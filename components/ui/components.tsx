@@ -75,3 +75,27 @@ export function HealthGauge({ score }: { score: number }) {
         </div>
     );
 }
+
+// --- Sparkline Component ---
+export function Sparkline({ values, max = 100, className = '' }: { values: number[]; max?: number; className?: string }) {
+    const width = 120;
+    const height = 32;
+    const step = values.length > 1 ? width / (values.length - 1) : 0;
+    const points = values.map((v, i) => [i * step, height - (Math.min(Math.max(v, 0), max) / max) * height]);
+    const last = points[points.length - 1];
+
+    return (
+        <svg viewBox={`-3 -3 ${width + 6} ${height + 6}`} className={`w-32 h-10 overflow-visible ${className}`}>
+            <polyline
+                points={points.map(([x, y]) => `${x},${y}`).join(' ')}
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinejoin="round"
+                strokeLinecap="round"
+                vectorEffect="non-scaling-stroke"
+            />
+            {last && <circle cx={last[0]} cy={last[1]} r="3" fill="currentColor" />}
+        </svg>
+    );
+}
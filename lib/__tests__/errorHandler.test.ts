@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError, ErrorReport, reportError, setErrorReporter } from '../errorHandler';
+
+function captureReport(error: unknown): ErrorReport {
+    const reports: ErrorReport[] = [];
+    setErrorReporter({ report: (report) => reports.push(report), flush: () => { } });
+    reportError('Test', error);
+    return reports[0];
+}
+
+describe('reportError', () => {
+    it('does not send the message of an API error', () => {
+        const report = captureReport(new ApiError('Could not parse clause: "The Customer shall pay 12,000 EUR"', 422));
+
+        expect(report.message).not.toContain('Customer');
+        expect(report.stack ?? '').not.toContain('Customer');
+        expect(report.code).toBe('validation');
+        expect(report.statusCode).toBe(422);
+    });
+
+    it('redacts messages that can quote data', () => {
+        const report = captureReport(new SyntaxError('Unexpected token \'T\', "The Supplier shall" is not valid JSON'));
+        expect(report.message).not.toContain('Supplier');
+        expect(report.stack ?? '').not.toContain('Supplier');
+    });
+
+    it('keeps the message of a programming error', () => {
+        const report = captureReport(new TypeError('Cannot read properties of undefined (reading \'flags\')'));
+        expect(report.message).toBe('Cannot read properties of undefined (reading \'flags\')');
+    });
+});
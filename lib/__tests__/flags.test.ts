@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { FlagContent, reconcileFlags, withContentIds } from '../flags';
+
+type Flag = FlagContent & { clauseId: string | null };
+
+const flag = (type: Flag['type'], original_text: string, clauseId: string | null = 'clause-7'): Flag =>
+    ({ type, analysis: `About: ${original_text}`, original_text, clauseId });
+
+const statuses = (previous: Flag[], current: Flag[]) =>
+    reconcileFlags(withContentIds(previous), withContentIds(current)).changes.map(change => [change.status, change.flag.original_text]);
+
+describe('reconcileFlags', () => {
+    it('reports an unrelated flag in the same clause as new, and the old one as resolved', () => {
+        const previous = [flag('red', 'The Supplier may terminate this Agreement at any time without notice.')];
+        const current = [flag('yellow', 'Late payments accrue interest at 5% per month.')];
+
+        expect(statuses(previous, current)).toEqual([
+            ['new', 'Late payments accrue interest at 5% per month.'],
+            ['resolved', 'The Supplier may terminate this Agreement at any time without notice.'],
+        ]);
+    });
+
+    it('reports an edited quote in the same passage as changed', () => {
+        const previous = [flag('red', 'The Supplier may terminate this Agreement at any time without notice.')];
+        const current = [flag('yellow', 'The Supplier may terminate this Agreement at any time with 30 days notice.')];
+
+        expect(statuses(previous, current)).toEqual([
+            ['changed', 'The Supplier may terminate this Agreement at any time with 30 days notice.'],
+        ]);
+    });
+
+    it('keeps an unchanged flag open', () => {
+        const previous = [flag('red', 'Liability is unlimited.')];
+        expect(statuses(previous, previous)).toEqual([['open', 'Liability is unlimited.']]);
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { parseClauses } from '../clauses';
+import { checkPlaybook, DEFAULT_PLAYBOOK, PlaybookRule } from '../playbook';
+
+const check = (text: string, rules: PlaybookRule[] = DEFAULT_PLAYBOOK) => checkPlaybook(rules, text, parseClauses(text));
+
+const LICENCE_RULE: PlaybookRule = {
+    id: 'rule-licence',
+    clauseType: 'Licence',
+    keywords: ['licence'],
+    preferred: 'A non-exclusive licence.',
+    fallbacks: [],
+    walkAway: 'An exclusive licence.',
+    requiredTerms: ['non-exclusive'],
+    fallbackTerms: [],
+    prohibitedTerms: ['exclusive'],
+};
+
+describe('checkPlaybook', () => {
+    it('accepts a clause at the preferred position', () => {
+        const result = check('1. Limitation of Liability\nEach party\'s liability is capped at the fees paid in the 12 months before the claim.');
+        expect(result.deviations).toEqual([]);
+        expect(result.fallbacks).toEqual([]);
+    });
+
+    it('reports a clause at an accepted fallback as a fallback, not a deviation', () => {
+        const result = check('1. Limitation of Liability\nEach party\'s liability is capped at the fees paid in the 24 months before the claim.');
+        expect(result.deviations).toEqual([]);
+        expect(result.fallbacks.map(f => f.rule.id)).toEqual(['rule-liability']);
+    });
+
+    it('reports a prohibited term as a deviation even alongside a fallback', () => {
+        const result = check('1. Limitation of Liability\nLiability is capped at 24 months of fees, except the Customer has unlimited liability for breach.');
+        expect(result.deviations.map(d => d.reasons)).toEqual([['Contains “unlimited liability”']]);
+        expect(result.fallbacks).toEqual([]);
+    });
+
+    it('reports a clause at neither position as a deviation', () => {
+        const result = check('1. Payment Terms\nInvoices are payable within 60 days.');
+        expect(result.deviations.map(d => d.rule.id)).toEqual(['rule-payment']);
+    });
+
+    it('matches terms as whole words', () => {
+        const result = check('1. Payment Terms\nInvoices are payable within 130 days.');
+        expect(result.deviations.map(d => d.reasons)).toEqual([['Doesn’t mention “30 days” or “thirty (30) days” or “thirty days” or “net 30”']]);
+    });
+
+    it('does not read a hyphenated compound as its last word', () => {
+        expect(check('1. Licence\nThe Licensor grants a non-exclusive licence.', [LICENCE_RULE]).deviations).toEqual([]);
+        expect(check('1. Licence\nThe Licensor grants an exclusive licence.', [LICENCE_RULE]).deviations.map(d => d.reasons))
+            .toEqual([['Contains “exclusive”', 'Doesn’t mention “non-exclusive”']]);
+    });
+
+    it('does not count a negated term as mentioned', () => {
+        const payment = check('1. Payment Terms\nInvoices are payable within 30 days and shall not be payable in advance.');
+        expect(payment.deviations).toEqual([]);
+
+        const indemnity = check('1. Indemnity\nThe indemnity in this clause is not mutual.');
+        expect(indemnity.deviations.map(d => d.rule.id)).toEqual(['rule-indemnity']);
+    });
+
+    it('reads a time limit as stating its term', () => {
+        const result = check('1. Payment Terms\nInvoices are payable no later than 30 days after receipt.');
+        expect(result.deviations).toEqual([]);
+        expect(result.fallbacks).toEqual([]);
+    });
+});
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { postFormWithProgress, RetryInfo, sendWithRetry } from '../request';
+
+interface FakeResponse {
+    status: number;
+    headers: string;
+    body: string;
+}
+
+/**
+ * Stands in for XMLHttpRequest, answering each send with the next response
+ */
+function stubXhr(responses: FakeResponse[]) {
+    class FakeXhr {
+        status = 0;
+        statusText = '';
+        responseText = '';
+        timeout = 0;
+        upload: { onprogress?: unknown; onload?: unknown } = {};
+        onload?: () => void;
+        private headers = '';
+
+        open() { }
+
+        getAllResponseHeaders() {
+            return this.headers;
+        }
+
+        send() {
+            const response = responses.shift()!;
+            this.status = response.status;
+            this.responseText = response.body;
+            this.headers = response.headers;
+            setTimeout(() => this.onload?.(), 0);
+        }
+    }
+    vi.stubGlobal('XMLHttpRequest', FakeXhr);
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('postFormWithProgress', () => {
+    it('keeps the response headers', async () => {
+        stubXhr([{ status: 200, headers: 'content-type: application/json\r\nx-request-id: abc\r\n', body: '{"text":""}' }]);
+
+        const response = await postFormWithProgress('/extract_text/', new FormData(), {});
+
+        expect(response.headers.get('Content-Type')).toBe('application/json');
+        expect(response.headers.get('X-Request-Id')).toBe('abc');
+    });
+
+    it('lets retries honour Retry-After on uploads', async () => {
+        stubXhr([
+            { status: 429, headers: 'retry-after: 0\r\n', body: '' },
+            { status: 200, headers: '', body: '{"text":"ok"}' },
+        ]);
+        const retries: RetryInfo[] = [];
+
+        const response = await sendWithRetry(
+            () => postFormWithProgress('/extract_text/', new FormData(), {}),
+            { retry: { baseDelay: 60000, maxDelay: 60000 }, onRetry: (info) => retries.push(info) }
+        );
+
+        expect(response.status).toBe(200);
+        expect(retries).toEqual([{ attempt: 1, delay: 0, reason: 'HTTP 429' }]);
+    });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { applyHunkDecisions, computeRevisionSegments, getRevisionHunks } from '../revisions';
+
+describe('computeRevisionSegments', () => {
+    it('makes a merged paragraph a hunk the user can reject', () => {
+        const base = '1. Term\n\n2. Payment is due.';
+        const segments = computeRevisionSegments(base, '1. Term 2. Payment is due.');
+
+        expect(getRevisionHunks(segments)).toHaveLength(1);
+        expect(applyHunkDecisions(segments, {})).toBe(base);
+    });
+
+    it('keeps the base layout in unchanged runs when a word changes', () => {
+        const base = '1. Term\n\n2. Payment is due in 30 days.';
+        const segments = computeRevisionSegments(base, '1. Term 2. Payment is due in 45 days.');
+        const hunks = getRevisionHunks(segments);
+        const wordChange = hunks.find(h => h.added.includes('45'))!;
+
+        expect(applyHunkDecisions(segments, { [wordChange.id]: 'accepted' })).toBe('1. Term\n\n2. Payment is due in 45 days.');
+    });
+
+    it('treats a replaced phrase as one hunk', () => {
+        const segments = computeRevisionSegments('paid within thirty days', 'paid within sixty business days');
+        expect(getRevisionHunks(segments)).toHaveLength(1);
+    });
+});
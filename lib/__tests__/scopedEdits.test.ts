@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { checkChangesOutsideRanges } from '../revisions';
+import { locateEditScopes, spliceScopedEdits } from '../scopedEdits';
+
+describe('locateEditScopes', () => {
+    it('scopes each copy of a repeated quote without the text between them', () => {
+        const text = [
+            'The Supplier may suspend the services on notice.',
+            'Payment is due within thirty days of invoice.',
+            'The Supplier may suspend the services on notice.',
+        ].join('\n');
+        const scopes = locateEditScopes(text, [{ id: 'f1', original_text: 'The Supplier may suspend the services on notice.', sectionId: null }])!;
+
+        expect(scopes.map(scope => scope.text)).toEqual([
+            'The Supplier may suspend the services on notice.',
+            'The Supplier may suspend the services on notice.',
+        ]);
+        expect(new Set(scopes.map(scope => scope.id)).size).toBe(2);
+    });
+
+    it('takes in the closing period, so a whole-sentence replacement stays inside the scope', () => {
+        const text = 'Either party may terminate on written notice. Fees are due monthly.';
+        const scopes = locateEditScopes(text, [{ id: 'f1', original_text: 'Either party may terminate on written notice', sectionId: null }])!;
+        const edited = spliceScopedEdits(text, scopes, { [scopes[0].id]: 'Either party may terminate on 30 days written notice.' });
+
+        expect(edited).toBe('Either party may terminate on 30 days written notice. Fees are due monthly.');
+        expect(checkChangesOutsideRanges(text, edited, scopes).outsideChanges).toBe(0);
+    });
+
+    it('returns null when a quote is not in the contract', () => {
+        expect(locateEditScopes('Payment is due within thirty days.', [{ id: 'f1', original_text: 'unlimited liability for all losses', sectionId: null }])).toBeNull();
+    });
+});
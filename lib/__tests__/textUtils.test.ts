@@ -0,0 +1,30 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { normalizeContractText } from '../textUtils';
+
+// Each fixture is a raw extraction ("name.txt") and the text it should normalize to ("name.expected.txt")
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', `${name}.txt`), 'utf8');
+
+const FIXTURES = {
+    'wrapped': 'unwraps soft line breaks and rejoins hyphenated words',
+    'word-per-line': 'rebuilds paragraphs from one-word-per-line PDF output',
+    'multi-page': 'drops page headers and footers across page breaks, and joins sentences split by one',
+    'numbering': 'keeps section numbering and list items on their own lines',
+    'repeated-lines': 'keeps repeated body lines when there are no page breaks',
+    'hyphenated-compounds': 'keeps the hyphen in compounds split by a line break',
+    'word-per-line-compounds': 'keeps the hyphen in compounds split across one-word lines',
+};
+
+describe('normalizeContractText', () => {
+    for (const [name, description] of Object.entries(FIXTURES)) {
+        it(`${description} (${name})`, () => {
+            expect(normalizeContractText(fixture(name))).toBe(fixture(`${name}.expected`).trimEnd());
+        });
+
+        it(`returns its own output unchanged (${name})`, () => {
+            const once = normalizeContractText(fixture(name));
+            expect(normalizeContractText(once)).toBe(once);
+        });
+    }
+});
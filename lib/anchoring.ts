@@ -0,0 +1,251 @@
+/**
+ * Locates quoted passages (a flag's original_text) in the contract text.
+ * Matching works on words, so differences in punctuation, quote style, spacing
+ * and hyphenated line breaks don't matter; close-but-not-exact quotes get a lower confidence.
+ */
+
+export interface TextAnchor {
+    start: number; // Character range in the contract text
+    end: number;
+    confidence: number; // 1 for an exact word match, lower for approximate matches
+}
+
+export interface AnchorResult {
+    anchors: TextAnchor[];
+    passages: string[]; // The quote split into its separately quoted parts
+    unmatchedPassages: string[];
+    confidence: number; // Lowest confidence across matched passages, 0 when nothing matched
+}
+
+/**
+ * A tokenized contract, built once and reused for every quote
+ */
+export interface AnchorIndex {
+    text: string;
+    words: string[];
+    starts: number[];
+    ends: number[];
+    positions: Map<string, number[]>; // Word -> token indexes, for exact matching
+}
+
+// Below this, an approximate match is treated as not found
+export const MIN_ANCHOR_CONFIDENCE = 0.6;
+
+// Words joined by hyphens, including a hyphen at a line break ("re-\nceipt")
+const WORD = /[\p{L}\p{N}]+(?:(?:[-‐‑]|-[ \t]*\n[ \t]*)[\p{L}\p{N}]+)*/gu;
+// "...", "…" and "[...]" separate passages quoted from different places
+const PASSAGE_SEPARATOR = /\s*(?:\[\s*(?:\.{3}|…)\s*\]|\.{3,}|…)\s*/;
+
+const normalizeWord = (word: string) => word.replace(/[^\p{L}\p{N}]/gu, '').toLowerCase();
+
+function tokenize(text: string): { words: string[]; starts: number[]; ends: number[] } {
+    const words: string[] = [];
+    const starts: number[] = [];
+    const ends: number[] = [];
+    for (const match of text.matchAll(WORD)) {
+        words.push(normalizeWord(match[0]));
+        starts.push(match.index!);
+        ends.push(match.index! + match[0].length);
+    }
+    return { words, starts, ends };
+}
+
+export function createAnchorIndex(text: string): AnchorIndex {
+    const { words, starts, ends } = tokenize(text);
+    const positions = new Map<string, number[]>();
+    words.forEach((word, idx) => {
+        const list = positions.get(word);
+        if (list) list.push(idx);
+        else positions.set(word, [idx]);
+    });
+    return { text, words, starts, ends, positions };
+}
+
+/**
+ * Splits a quote on ellipses into the passages it stitches together
+ */
+export function splitQuotePassages(quote: string): string[] {
+    return quote
+        .split(PASSAGE_SEPARATOR)
+        .map(p => p.trim())
+        .filter(p => tokenize(p).words.length > 0);
+}
+
+/**
+ * Every place the passage's words appear in order
+ */
+function findExact(index: AnchorIndex, needle: string[]): number[] {
+    const candidates = index.positions.get(needle[0]) ?? [];
+    return candidates.filter(start => needle.every((word, i) => index.words[start + i] === word));
+}
+
+/**
+ * Best approximate window for the passage: slide a bag-of-words window to find the region
+ * sharing the most words, then align in order to trim it and score it.
+ */
+function findApproximate(index: AnchorIndex, needle: string[]): { startToken: number; endToken: number; confidence: number } | null {
+    const n = needle.length;
+    const total = index.words.length;
+    if (total === 0) return null;
+
+    const wanted = new Map<string, number>();
+    needle.forEach(word => wanted.set(word, (wanted.get(word) ?? 0) + 1));
+
+    const size = Math.min(n, total);
+    const inWindow = new Map<string, number>();
+    let overlap = 0;
+    let best = { overlap: -1, start: 0 };
+
+    const add = (word: string) => {
+        const count = inWindow.get(word) ?? 0;
+        if (count < (wanted.get(word) ?? 0)) overlap++;
+        inWindow.set(word, count + 1);
+    };
+    const remove = (word: string) => {
+        const count = inWindow.get(word)! - 1;
+        inWindow.set(word, count);
+        if (count < (wanted.get(word) ?? 0)) overlap--;
+    };
+
+    for (let i = 0; i < total; i++) {
+        add(index.words[i]);
+        if (i >= size) remove(index.words[i - size]);
+        const start = i - size + 1;
+        if (start >= 0 && overlap > best.overlap) best = { overlap, start };
+    }
+    if (best.overlap <= 0) return null;
+
+    // Widen a little so insertions or deletions in the source are still covered, then align in order
+    const slack = Math.ceil(n / 4);
+    const from = Math.max(0, best.start - slack);
+    const to = Math.min(total, best.start + size + slack);
+    const region = index.words.slice(from, to);
+
+    // Longest common subsequence, tracking where the matched run starts and ends in the region
+    const rows = n + 1;
+    const cols = region.length + 1;
+    const table = new Uint16Array(rows * cols);
+    for (let i = 1; i < rows; i++) {
+        for (let j = 1; j < cols; j++) {
+            table[i * cols + j] = needle[i - 1] === region[j - 1]
+                ? table[(i - 1) * cols + j - 1] + 1
+                : Math.max(table[(i - 1) * cols + j], table[i * cols + j - 1]);
+        }
+    }
+
+    let i = n;
+    let j = region.length;
+    let first = -1;
+    let last = -1;
+    while (i > 0 && j > 0) {
+        if (needle[i - 1] === region[j - 1]) {
+            if (last === -1) last = j - 1;
+            first = j - 1;
+            i--;
+            j--;
+        } else if (table[(i - 1) * cols + j] >= table[i * cols + j - 1]) {
+            i--;
+        } else {
+            j--;
+        }
+    }
+
+    const matched = table[n * cols + region.length];
+    if (matched === 0 || first === -1) return null;
+
+    const span = last - first + 1;
+    return {
+        startToken: from + first,
+        endToken: from + last,
+        confidence: matched / Math.max(n, span),
+    };
+}
+
+/**
+ * Anchors one quote, which may stitch several passages together.
+ * Exact passages are anchored at every occurrence; approximate ones at their best match.
+ */
+export function anchorQuote(index: AnchorIndex, quote: string, minConfidence = MIN_ANCHOR_CONFIDENCE): AnchorResult {
+    const passages = quote && quote.trim() !== 'N/A' ? splitQuotePassages(quote) : [];
+    const anchors: TextAnchor[] = [];
+    const unmatchedPassages: string[] = [];
+    let confidence = passages.length > 0 ? 1 : 0;
+
+    for (const passage of passages) {
+        const needle = tokenize(passage).words;
+
+        const exact = findExact(index, needle);
+        if (exact.length > 0) {
+            exact.forEach(start => anchors.push({
+                start: index.starts[start],
+                end: index.ends[start + needle.length - 1],
+                confidence: 1,
+            }));
+            continue;
+        }
+
+        // Very short passages only count when they match exactly
+        const approximate = needle.length >= 4 ? findApproximate(index, needle) : null;
+        if (approximate && approximate.confidence >= minConfidence) {
+            anchors.push({
+                start: index.starts[approximate.startToken],
+                end: index.ends[approximate.endToken],
+                confidence: approximate.confidence,
+            });
+            confidence = Math.min(confidence, approximate.confidence);
+        } else {
+            unmatchedPassages.push(passage);
+        }
+    }
+
+    anchors.sort((a, b) => a.start - b.start);
+    return { anchors, passages, unmatchedPassages, confidence: anchors.length > 0 ? confidence : 0 };
+}
+
+/**
+ * Anchors every flag's quote against the contract text
+ */
+export function anchorFlags<T extends { id: string; original_text: string }>(text: string, flags: T[]): Record<string, AnchorResult> {
+    const index = createAnchorIndex(text);
+    return Object.fromEntries(flags.map(flag => [flag.id, anchorQuote(index, flag.original_text)]));
+}
+
+/**
+ * A run of text covered by the same set of highlights
+ */
+export interface HighlightSegment {
+    start: number;
+    end: number;
+    ids: string[]; // Highlights covering this run, outermost first; empty for plain text
+}
+
+/**
+ * Splits the text into runs so overlapping or nested highlights render correctly.
+ * `breaks` adds extra split points, e.g. for scroll anchors.
+ */
+export function buildHighlightSegments(
+    length: number,
+    ranges: Array<{ id: string; start: number; end: number }>,
+    breaks: number[] = []
+): HighlightSegment[] {
+    const valid = ranges.filter(r => r.end > r.start && r.start < length);
+    const points = new Set<number>([0, length, ...breaks.filter(b => b > 0 && b < length)]);
+    valid.forEach(r => {
+        points.add(Math.max(0, r.start));
+        points.add(Math.min(length, r.end));
+    });
+    const sorted = [...points].sort((a, b) => a - b);
+
+    const segments: HighlightSegment[] = [];
+    for (let i = 0; i < sorted.length - 1; i++) {
+        const start = sorted[i];
+        const end = sorted[i + 1];
+        const ids = valid
+            .filter(r => r.start <= start && r.end >= end)
+            // Longer ranges first, so the outermost highlight comes first
+            .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+            .map(r => r.id);
+        segments.push({ start, end, ids: [...new Set(ids)] });
+    }
+    return segments;
+}
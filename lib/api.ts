@@ -1,4 +1,8 @@
-import { ApiError, logError } from './errorHandler';
+import { ApiError, isAbortError, logError } from './errorHandler';
+import { fetchWithTimeout, parseRetryAfter, postFormWithProgress, RetryInfo, sendWithRetry, UploadProgressHandler } from './request';
+import type { PlaybookPosition } from './playbook';
+
+export type { RetryInfo, UploadProgressHandler };
 
 // Centralized API Base URL Configuration
 // Uses localhost in development, production URL otherwise
@@ -11,9 +15,6 @@ const API_BASE_URL: string =
 // Export for use in components if needed
 export { API_BASE_URL };
 
-// API timeout in milliseconds
-const API_TIMEOUT = 60000; // 60 seconds for AI processing
-
 export interface KeyDetail {
     label: string;
     value: string;
@@ -36,41 +37,148 @@ export interface AnalysisResult {
 }
 
 /**
- * Fetch with timeout support
+ * A backend analysis after validation, with a note for every field that had to be fixed
  */
-async function fetchWithTimeout(url: string, options: RequestInit, timeout: number = API_TIMEOUT): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+export interface NormalizedAnalysis {
+    analysis: AnalysisResult;
+    repairs: string[]; // e.g. "red_flags[2]: legacy string flag converted"
+}
 
-    try {
-        const response = await fetch(url, {
-            ...options,
-            signal: controller.signal,
-        });
-        clearTimeout(timeoutId);
-        return response;
-    } catch (error) {
-        clearTimeout(timeoutId);
-        if (error instanceof Error && error.name === 'AbortError') {
-            throw new ApiError('Request timed out. The analysis is taking longer than expected. Please try again.', 408);
+type FlagListField = 'red_flags' | 'yellow_flags' | 'green_flags';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+function normalizeFlag(raw: unknown, path: string, repairs: string[]): FlagWithText | null {
+    // Older backends returned plain strings without the quoted clause
+    if (typeof raw === 'string') {
+        repairs.push(`${path}: legacy string flag converted`);
+        return raw.trim() ? { analysis: raw.trim(), original_text: 'N/A' } : null;
+    }
+    if (!isRecord(raw) || typeof raw.analysis !== 'string' || !raw.analysis.trim()) {
+        repairs.push(`${path}: unreadable flag dropped`);
+        return null;
+    }
+    if (typeof raw.original_text !== 'string' || !raw.original_text.trim()) {
+        repairs.push(`${path}.original_text: missing, set to N/A`);
+        return { analysis: raw.analysis, original_text: 'N/A' };
+    }
+    return { analysis: raw.analysis, original_text: raw.original_text };
+}
+
+function normalizeKeyDetails(raw: unknown, repairs: string[]): KeyDetail[] {
+    if (raw === undefined || raw === null) {
+        repairs.push('key_details: missing, defaulted to []');
+        return [];
+    }
+    // Some responses use a { label: value } map instead of a list
+    if (isRecord(raw)) {
+        repairs.push('key_details: object converted to a list');
+        return Object.entries(raw).map(([label, value]) => ({ label, value: String(value ?? '') }));
+    }
+    if (!Array.isArray(raw)) {
+        repairs.push(`key_details: expected a list, got ${typeof raw}`);
+        return [];
+    }
+    return raw.flatMap((detail, idx) => {
+        if (isRecord(detail) && detail.label !== undefined) {
+            return [{ label: String(detail.label), value: String(detail.value ?? '') }];
         }
-        throw error;
+        repairs.push(`key_details[${idx}]: unreadable detail dropped`);
+        return [];
+    });
+}
+
+function normalizeScore(raw: unknown, repairs: string[]): number {
+    const score = typeof raw === 'string' ? parseFloat(raw) : raw;
+    if (typeof score !== 'number' || !Number.isFinite(score)) {
+        repairs.push(`total_health_score: ${raw === undefined ? 'missing' : `invalid value ${JSON.stringify(raw)}`}, defaulted to 0`);
+        return 0;
+    }
+    if (typeof raw === 'string') repairs.push('total_health_score: string converted to a number');
+
+    const clamped = Math.min(100, Math.max(0, Math.round(score)));
+    if (clamped !== Math.round(score)) repairs.push(`total_health_score: ${score} clamped to ${clamped}`);
+    return clamped;
+}
+
+function normalizeText(raw: unknown, field: string, fallback: string, repairs: string[]): string {
+    if (typeof raw === 'string') return raw;
+    if (typeof raw === 'number' || typeof raw === 'boolean') {
+        repairs.push(`${field}: ${typeof raw} converted to text`);
+        return String(raw);
+    }
+    repairs.push(`${field}: ${raw === undefined || raw === null ? 'missing' : `expected text, got ${typeof raw}`}, defaulted to "${fallback}"`);
+    return fallback;
+}
+
+/**
+ * Validates an analysis from the backend (or from storage) and repairs what it can:
+ * legacy string flags, a missing or out-of-range score, and missing fields or lists.
+ * Throws only when the value isn't an object at all.
+ */
+export function normalizeAnalysisResult(raw: unknown): NormalizedAnalysis {
+    if (!isRecord(raw)) {
+        throw new ApiError('Invalid analysis result structure', 500);
     }
+
+    const repairs: string[] = [];
+    const flagList = (field: FlagListField): FlagWithText[] => {
+        const list = raw[field];
+        if (!Array.isArray(list)) {
+            repairs.push(`${field}: ${list === undefined || list === null ? 'missing' : `expected a list, got ${typeof list}`}, defaulted to []`);
+            return [];
+        }
+        return list.flatMap((flag, idx) => normalizeFlag(flag, `${field}[${idx}]`, repairs) ?? []);
+    };
+
+    const analysis: AnalysisResult = {
+        contract_type: normalizeText(raw.contract_type, 'contract_type', 'Contract', repairs),
+        jurisdiction: normalizeText(raw.jurisdiction, 'jurisdiction', '', repairs),
+        key_details: normalizeKeyDetails(raw.key_details, repairs),
+        red_flags: flagList('red_flags'),
+        yellow_flags: flagList('yellow_flags'),
+        green_flags: flagList('green_flags'),
+        plain_english_summary: normalizeText(raw.plain_english_summary, 'plain_english_summary', '', repairs),
+        total_health_score: normalizeScore(raw.total_health_score, repairs),
+    };
+    return { analysis, repairs };
+}
+
+/**
+ * Options shared by every API call
+ */
+export interface RequestOptions {
+    // Cancels the request (and any response stream) when aborted
+    signal?: AbortSignal;
+    // Called before each automatic retry of a transient failure
+    onRetry?: (info: RetryInfo) => void;
 }
 
 /**
- * Check if API is reachable
+ * Check if API is reachable.
+ * Deliberately a single attempt: the connectivity monitor calls it on a schedule.
  */
-export async function checkApiHealth(): Promise<boolean> {
+export async function checkApiHealth(options: RequestOptions = {}): Promise<boolean> {
     try {
-        const response = await fetchWithTimeout(`${API_BASE_URL}/`, {}, 5000);
+        const response = await fetchWithTimeout(`${API_BASE_URL}/`, { signal: options.signal }, 5000);
         return response.ok;
     } catch {
         return false;
     }
 }
 
-export async function analyzeContract(file: File | string): Promise<AnalysisResult> {
+/**
+ * Options for contract analysis
+ */
+export interface AnalyzeOptions extends RequestOptions {
+    // Governing law chosen by the user; the model still reports what it detects
+    jurisdiction?: string;
+    // Called when the request is waiting for the connection; it resumes by itself
+    onQueued?: () => void;
+}
+
+export async function analyzeContract(file: File | string, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
     const formData = new FormData();
 
     if (typeof file === 'string') {
@@ -83,17 +191,22 @@ export async function analyzeContract(file: File | string): Promise<AnalysisResu
             throw new ApiError('Uploaded file is empty', 400);
         }
         if (file.size > 10 * 1024 * 1024) { // 10MB limit
-            throw new ApiError('File size exceeds 10MB limit', 400);
+            throw new ApiError('File size exceeds 10MB limit', 413);
         }
         formData.append('file', file);
     }
 
+    if (options.jurisdiction) {
+        formData.append('jurisdiction', options.jurisdiction);
+    }
 
     try {
-        const response = await fetchWithTimeout(`${API_BASE_URL}/analyze_contract/`, {
+        // Analysis has no side effects, so it is retried, and queued while offline
+        const response = await sendWithRetry(() => fetchWithTimeout(`${API_BASE_URL}/analyze_contract/`, {
             method: 'POST',
             body: formData,
-        });
+            signal: options.signal,
+        }), { ...options, label: 'POST /analyze_contract/', retry: { retries: 2 }, queueWhileOffline: true });
 
         if (!response.ok) {
             let errorMessage = `Analysis failed (${response.status})`;
@@ -105,7 +218,8 @@ export async function analyzeContract(file: File | string): Promise<AnalysisResu
                 if (errorText) errorMessage = errorText;
             }
 
-            throw new ApiError(errorMessage, response.status);
+            const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+            throw new ApiError(errorMessage, response.status, retryAfter === null ? {} : { retryAfter: retryAfter / 1000 });
         }
 
         const data = await response.json();
@@ -121,14 +235,13 @@ export async function analyzeContract(file: File | string): Promise<AnalysisResu
             }
         }
 
-        // Validate response structure
-        if (!analysis || typeof analysis !== 'object') {
-            throw new ApiError('Invalid analysis result structure', 500);
+        const { analysis: normalized, repairs } = normalizeAnalysisResult(analysis);
+        if (repairs.length > 0) {
+            logError('Analysis Normalization', new Error(`Repaired ${repairs.length} field(s) in the analysis`), { repairs });
         }
-
-        return analysis;
+        return normalized;
     } catch (error) {
-        if (error instanceof ApiError) throw error;
+        if (error instanceof ApiError || isAbortError(error)) throw error;
 
         if (error instanceof Error) {
             if (error.message.includes('Failed to fetch')) {
@@ -143,22 +256,48 @@ export async function analyzeContract(file: File | string): Promise<AnalysisResu
     }
 }
 
-export async function explainRisk(riskText: string, contractContext: string): Promise<string> {
+/**
+ * Extra context for an explanation, and an optional follow-up question about an earlier one.
+ * The endpoint only reads risk_text and contract_context, so these are folded into them.
+ */
+export interface ExplainOptions extends RequestOptions {
+    originalText?: string; // The flagged quote
+    clauseText?: string; // The contract clause the quote sits in
+    question?: string;
+    previousExplanation?: string; // Required with `question`
+}
+
+export async function explainRisk(riskText: string, contractContext: string, options: ExplainOptions = {}): Promise<string> {
     if (!riskText.trim()) {
         throw new ApiError('Risk text cannot be empty', 400);
     }
 
+    const risk = options.question
+        ? [
+            riskText,
+            `Earlier explanation:\n${options.previousExplanation ?? ''}`,
+            `Follow-up question: ${options.question}`,
+            'Answer the follow-up question rather than repeating the explanation.',
+        ].join('\n\n')
+        : riskText;
+    const context = [
+        contractContext,
+        options.originalText && `Flagged text: "${options.originalText}"`,
+        options.clauseText && `Clause:\n${options.clauseText}`,
+    ].filter(Boolean).join('\n\n');
+
     try {
-        const response = await fetchWithTimeout(`${API_BASE_URL}/explain_risk/`, {
+        const response = await sendWithRetry(() => fetchWithTimeout(`${API_BASE_URL}/explain_risk/`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
             },
             body: JSON.stringify({
-                risk_text: riskText,
-                contract_context: contractContext,
+                risk_text: risk,
+                contract_context: context,
             }),
-        }, 30000); // 30 second timeout for explanations
+            signal: options.signal,
+        }, 30000), { ...options, label: 'POST /explain_risk/' }); // 30 second timeout for explanations
 
         if (!response.ok) {
             throw new ApiError('Failed to generate risk explanation', response.status);
@@ -167,18 +306,18 @@ export async function explainRisk(riskText: string, contractContext: string): Pr
         const data = await response.json();
         return data.explanation || 'No explanation available';
     } catch (error) {
-        if (error instanceof ApiError) throw error;
+        if (error instanceof ApiError || isAbortError(error)) throw error;
         throw new ApiError('Failed to explain risk. Please try again.', 500);
     }
 }
 
-export async function redlineClause(file: File, originalText: string, jurisdiction: string, riskContext: string): Promise<Blob> {
+export async function redlineClause(file: File, originalText: string, jurisdiction: string, riskContext: string, options: RequestOptions = {}): Promise<Blob> {
     if (!file || file.size === 0) {
         throw new ApiError('Valid file is required for redlining', 400);
     }
 
     if (!file.name.endsWith('.docx')) {
-        throw new ApiError('Only DOCX files are supported for redlining', 400);
+        throw new ApiError('Only DOCX files are supported for redlining', 415);
     }
 
     const formData = new FormData();
@@ -188,10 +327,11 @@ export async function redlineClause(file: File, originalText: string, jurisdicti
     formData.append('risk_context', riskContext);
 
     try {
-        const response = await fetchWithTimeout(`${API_BASE_URL}/redline_clause/`, {
+        const response = await sendWithRetry(() => fetchWithTimeout(`${API_BASE_URL}/redline_clause/`, {
             method: 'POST',
             body: formData,
-        }, 45000); // 45 second timeout
+            signal: options.signal,
+        }, 45000), { ...options, label: 'POST /redline_clause/' }); // 45 second timeout
 
         if (!response.ok) {
             let errorMessage = 'Redlining failed';
@@ -205,15 +345,52 @@ export async function redlineClause(file: File, originalText: string, jurisdicti
 
         return await response.blob();
     } catch (error) {
-        if (error instanceof ApiError) throw error;
+        if (error instanceof ApiError || isAbortError(error)) throw error;
         throw new ApiError('Failed to redline document. Please try again.', 500);
     }
 }
 
+/**
+ * A single clause to redline, paired with the analysis that motivated the change
+ */
+export interface RedlineRequest {
+    originalText: string;
+    riskContext: string;
+}
+
+/**
+ * Redline several clauses into one document.
+ * Each pass feeds the previously redlined DOCX back in, so the final file carries every tracked change.
+ */
+export async function redlineClauses(file: File, clauses: RedlineRequest[], jurisdiction: string, options: RequestOptions = {}): Promise<Blob> {
+    if (clauses.length === 0) {
+        throw new ApiError('Select at least one clause to redline', 400);
+    }
+
+    let current = file;
+    let result: Blob = file;
+
+    for (const clause of clauses) {
+        result = await redlineClause(current, clause.originalText, jurisdiction, clause.riskContext, options);
+        current = new File([result], file.name, { type: file.type });
+    }
+
+    return result;
+}
+
+/**
+ * Options for text extraction
+ */
+export interface ExtractOptions extends RequestOptions {
+    onUploadProgress?: UploadProgressHandler;
+    // Extraction is the first step of an analysis, so it waits for the connection too
+    onQueued?: () => void;
+}
+
 /**
  * Extract text from a file
  */
-export async function extractText(file: File): Promise<string> {
+export async function extractText(file: File, options: ExtractOptions = {}): Promise<string> {
     if (!file || file.size === 0) {
         throw new ApiError('Valid file is required for text extraction', 400);
     }
@@ -222,10 +399,10 @@ export async function extractText(file: File): Promise<string> {
     formData.append('file', file);
 
     try {
-        const response = await fetchWithTimeout(`${API_BASE_URL}/extract_text/`, {
-            method: 'POST',
-            body: formData,
-        }, 30000); // 30 second timeout
+        const response = await sendWithRetry(
+            () => postFormWithProgress(`${API_BASE_URL}/extract_text/`, formData, options, 30000), // 30 second timeout
+            { ...options, label: 'POST /extract_text/', queueWhileOffline: true }
+        );
 
         if (!response.ok) {
             const errorText = await response.text().catch(() => 'Unknown error');
@@ -235,12 +412,13 @@ export async function extractText(file: File): Promise<string> {
         const data = await response.json();
 
         if (!data.text || data.text.trim().length === 0) {
-            throw new ApiError('No text could be extracted from the file', 500);
+            // Typically a scanned PDF with no text layer
+            throw new ApiError('No text could be extracted from the file', 422, { code: 'unsupported_format' });
         }
 
         return data.text;
     } catch (error) {
-        if (error instanceof ApiError) throw error;
+        if (error instanceof ApiError || isAbortError(error)) throw error;
         throw new ApiError('Failed to extract text. Please try again.', 500);
     }
 }
@@ -252,25 +430,33 @@ export interface NegotiationPayload {
     message: string;
     contract_context: string;
     jurisdiction: string;
-    analysis_context?: any;
+    analysis_context?: AnalysisResult | Record<string, never>;
     selected_clause?: string;
     history?: Array<{ role: string; content: string }>;
+    // 'clauses': edits come back as replacements for target_clauses only, each announced by an edit_start naming its ID
+    edit_scope?: 'clauses' | 'document';
+    target_clauses?: Array<{ id: string; text: string }>;
+    // The team's positions for the clause types being negotiated, see lib/playbook
+    playbook?: PlaybookPosition[];
 }
 
 /**
- * Negotiate chat - returns raw Response for streaming
+ * Negotiate chat - returns raw Response for streaming.
+ * The timeout covers the wait for the first byte; aborting the signal also stops the body stream.
  */
-export async function negotiateChat(payload: NegotiationPayload): Promise<Response> {
+export async function negotiateChat(payload: NegotiationPayload, options: RequestOptions = {}): Promise<Response> {
     if (!payload.message.trim()) {
         throw new ApiError('Message cannot be empty', 400);
     }
 
     try {
-        const response = await fetch(`${API_BASE_URL}/negotiate/chat/`, {
+        // Not retried: a chat turn isn't idempotent, and the user can resend it
+        const response = await sendWithRetry(() => fetchWithTimeout(`${API_BASE_URL}/negotiate/chat/`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(payload),
-        });
+            signal: options.signal,
+        }), { ...options, label: 'POST /negotiate/chat/', retry: false });
 
         if (!response.ok) {
             throw new ApiError('Negotiation failed', response.status);
@@ -278,7 +464,7 @@ export async function negotiateChat(payload: NegotiationPayload): Promise<Respon
 
         return response;
     } catch (error) {
-        if (error instanceof ApiError) throw error;
+        if (error instanceof ApiError || isAbortError(error)) throw error;
         if (error instanceof Error && error.message.includes('Failed to fetch')) {
             throw new ApiError(
                 `Cannot connect to server at ${API_BASE_URL}. Please check your connection.`,
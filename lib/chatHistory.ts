@@ -0,0 +1,96 @@
+import { ChatMessage } from './contract-store';
+import { strategyToMarkdown } from './strategy';
+
+/**
+ * A turn as `negotiateChat` expects it in `history`
+ */
+export interface HistoryTurn {
+    role: string;
+    content: string;
+}
+
+// Rough count for English prose: about 4 characters per token
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Enough for several exchanges without crowding out the contract, which is sent alongside
+export const HISTORY_TOKEN_BUDGET = 3000;
+// Share of the budget kept for the summary of older turns once the thread no longer fits
+const SUMMARY_SHARE = 0.25;
+const SUMMARY_LINE_LENGTH = 160;
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+    user: 'You',
+    agent: 'Negotiator Agent',
+};
+
+const clip = (text: string, length: number) =>
+    text.length > length ? text.slice(0, length - 1).trimEnd() + '…' : text;
+
+// First sentence of a turn, on one line: enough to recall what was discussed
+function summaryLine(message: ChatMessage): string {
+    const flat = message.text.replace(/\s+/g, ' ').trim();
+    const sentence = flat.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? flat;
+    return `- ${ROLE_LABELS[message.role]}: ${clip(sentence, SUMMARY_LINE_LENGTH)}`;
+}
+
+/**
+ * The chat as `history` for the next request, kept within `budget` tokens.
+ * Recent turns are sent verbatim; once they no longer fit, older turns are folded into
+ * a one-line-per-turn summary, and the oldest of those are dropped if even that runs over.
+ * Error notices and empty turns are never sent.
+ */
+export function buildChatHistory(messages: ChatMessage[], budget: number = HISTORY_TOKEN_BUDGET): HistoryTurn[] {
+    const turns = messages.filter(m => !m.failed && m.text.trim());
+    const toTurn = (m: ChatMessage): HistoryTurn => ({ role: m.role, content: m.text });
+
+    const total = turns.reduce((sum, m) => sum + estimateTokens(m.text), 0);
+    if (total <= budget) return turns.map(toTurn);
+
+    const summaryBudget = Math.floor(budget * SUMMARY_SHARE);
+    let remaining = budget - summaryBudget;
+    let firstVerbatim = turns.length;
+    while (firstVerbatim > 0 && estimateTokens(turns[firstVerbatim - 1].text) <= remaining) {
+        remaining -= estimateTokens(turns[firstVerbatim - 1].text);
+        firstVerbatim--;
+    }
+
+    const recent = turns.slice(firstVerbatim).map(toTurn);
+    // A single reply larger than the budget: keep its end, which is closest to the question that follows
+    if (recent.length === 0) {
+        const last = turns[turns.length - 1];
+        recent.push({ role: last.role, content: '…' + last.text.slice(-remaining * 4) });
+        firstVerbatim = turns.length - 1;
+    }
+
+    const lines: string[] = [];
+    let summaryTokens = 0;
+    let index = firstVerbatim - 1;
+    for (; index >= 0; index--) {
+        const line = summaryLine(turns[index]);
+        if (summaryTokens + estimateTokens(line) > summaryBudget) break;
+        summaryTokens += estimateTokens(line);
+        lines.unshift(line);
+    }
+    if (index >= 0) lines.unshift(`- (${index + 1} earlier messages omitted)`);
+    if (lines.length === 0) return recent;
+
+    return [
+        { role: 'agent', content: `Summary of the earlier conversation:\n${lines.join('\n')}` },
+        ...recent,
+    ];
+}
+
+/**
+ * The whole thread as a Markdown document, for the copilot's "Export chat"
+ */
+export function chatToMarkdown(messages: ChatMessage[], contractName: string, exportedAt: Date = new Date()): string {
+    const header = `# Negotiation chat: ${contractName}\n\n_Exported ${exportedAt.toLocaleString()}_`;
+    const turns = messages.map(message => {
+        let text = `**${ROLE_LABELS[message.role]}:**`;
+        if (message.strategy) text += `\n\n${strategyToMarkdown(message.strategy)}`;
+        if (message.text.trim()) text += `\n\n${message.text.trim()}`;
+        if (message.stopped) text += '\n\n_(Stopped before the reply finished)_';
+        return text;
+    });
+    return [header, ...turns].join('\n\n---\n\n') + '\n';
+}
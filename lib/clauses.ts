@@ -0,0 +1,226 @@
+import { matchSectionMarker } from './textUtils';
+import { AnchorIndex, anchorQuote, createAnchorIndex } from './anchoring';
+
+/**
+ * Numbering styles, from outermost to innermost by default
+ */
+export type ClauseKind = 'heading' | 'article' | 'decimal' | 'upper' | 'alpha' | 'roman' | 'numeric';
+
+/**
+ * A node in the contract outline: an article, section or sub-clause
+ */
+export interface Clause {
+    id: string; // Stable across edits that keep the numbering, e.g. "clause-4-2-a"
+    number: string; // As written: "4.2", "(a)", "Article IV"; empty for unnumbered headings
+    heading: string;
+    kind: ClauseKind;
+    level: number; // 1 for top-level clauses
+    start: number; // Character range in the contract text, children included
+    end: number;
+    parentId: string | null;
+    children: Clause[];
+}
+
+const KIND_RANK: Record<ClauseKind, number> = {
+    heading: 1, // Unnumbered titles such as "RECITALS" sit alongside articles
+    article: 1,
+    decimal: 2, // Plus the depth of the dotted number, so 1.1 nests under 1.
+    upper: 20,
+    alpha: 21,
+    roman: 22,
+    numeric: 23,
+};
+
+const MAX_HEADING_LENGTH = 80;
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const isHeadingLine = (line: string) =>
+    /[A-Z]{2}/.test(line) && !/[a-z]/.test(line) && line.split(/\s+/).length <= 8 && !/[.;,]$/.test(line);
+
+interface MarkerInfo {
+    kind: ClauseKind;
+    rank: number;
+    // Decimal and article numbers are unique in the document; letters and romans repeat under each parent
+    isGlobal: boolean;
+}
+
+function classifyMarker(marker: string, previousAlpha: string | null): MarkerInfo {
+    const bare = marker.replace(/[.:]$/, '');
+
+    if (/^(article|part|schedule|exhibit|annex|appendix)\b/i.test(bare)) {
+        return { kind: 'article', rank: KIND_RANK.article, isGlobal: true };
+    }
+    const decimal = bare.replace(/^(section|clause)\s+/i, '');
+    if (/^\d+(\.\d+)*$/.test(decimal)) {
+        return { kind: 'decimal', rank: KIND_RANK.decimal + decimal.split('.').length, isGlobal: true };
+    }
+    if (/^\(\d+\)$/.test(bare)) {
+        return { kind: 'numeric', rank: KIND_RANK.numeric, isGlobal: false };
+    }
+    // "(i)" straight after "(h)" is a letter, otherwise a roman numeral
+    const letter = bare.replace(/[()]/g, '').toLowerCase();
+    const continuesLetters = letter.length === 1 && previousAlpha?.charCodeAt(0) === letter.charCodeAt(0) - 1;
+    if (/^\([ivx]+\)$/i.test(bare) && !continuesLetters) {
+        return { kind: 'roman', rank: KIND_RANK.roman, isGlobal: false };
+    }
+    if (/^[A-Z]$/.test(bare)) {
+        return { kind: 'upper', rank: KIND_RANK.upper, isGlobal: false };
+    }
+    return { kind: 'alpha', rank: KIND_RANK.alpha, isGlobal: false };
+}
+
+/**
+ * Short heading from a clause's first line: a leading "Payment." style title, or the start of the sentence
+ */
+function extractHeading(rest: string): string {
+    const text = rest.replace(/^[\s.:\-–—]+/, '').trim();
+    const title = text.match(/^([^.:;]{1,40})[.:]\s/);
+    if (title) return title[1].trim();
+    if (text.length <= MAX_HEADING_LENGTH && !/[.;]$/.test(text)) return text;
+
+    return text.length > 60 ? `${text.slice(0, 60).trim()}…` : text.replace(/[.;]$/, '');
+}
+
+/**
+ * Splits contract text into a tree of articles, sections and sub-clauses.
+ * Nesting follows the numbering: "Article IV" > "4.1" > "4.1.2" > "(a)" > "(i)" > "(1)".
+ */
+export function parseClauses(text: string): Clause[] {
+    const roots: Clause[] = [];
+    const stack: Array<{ clause: Clause; rank: number; kind: ClauseKind }> = [];
+    const usedIds = new Set<string>();
+    let previousAlpha: string | null = null;
+    let headingLineIdx = -1; // Next line already used as a lone marker's title
+    let offset = 0;
+
+    const lines = text.split('\n');
+    lines.forEach((rawLine, lineIdx) => {
+        const lineStart = offset;
+        offset += rawLine.length + 1;
+
+        const line = rawLine.trim();
+        if (!line || lineIdx === headingLineIdx) return;
+
+        const marker = matchSectionMarker(line);
+        let info: MarkerInfo;
+        let heading: string;
+        let number = '';
+
+        if (marker) {
+            info = classifyMarker(marker, previousAlpha);
+            number = marker.replace(/[.:]$/, '');
+            heading = extractHeading(line.slice(marker.length));
+
+            // A lone "Article IV" often has its title on the next line
+            const nextLine = lines[lineIdx + 1]?.trim() ?? '';
+            if (!heading && nextLine && nextLine.length <= MAX_HEADING_LENGTH && !matchSectionMarker(nextLine)) {
+                heading = extractHeading(nextLine);
+                headingLineIdx = lineIdx + 1;
+            }
+        } else if (isHeadingLine(line)) {
+            info = { kind: 'heading', rank: KIND_RANK.heading, isGlobal: true };
+            heading = line;
+        } else {
+            return;
+        }
+
+        if (info.kind === 'alpha') {
+            previousAlpha = number.replace(/[()]/g, '').toLowerCase();
+        } else if (info.rank <= KIND_RANK.upper) {
+            previousAlpha = null;
+        }
+
+        // Close clauses at the same or deeper level, or back up to an open sibling of the same kind
+        const siblingIdx = stack.findIndex(entry => entry.kind === info.kind && entry.rank === info.rank);
+        if (siblingIdx >= 0) {
+            stack.length = siblingIdx;
+        } else {
+            while (stack.length && stack[stack.length - 1].rank >= info.rank) stack.pop();
+        }
+
+        const parent = stack[stack.length - 1]?.clause ?? null;
+        const localSlug = slugify(number || heading) || 'section';
+        let id = info.isGlobal || !parent ? `clause-${localSlug}` : `${parent.id}-${localSlug}`;
+        if (usedIds.has(id)) {
+            let n = 2;
+            while (usedIds.has(`${id}-${n}`)) n++;
+            id = `${id}-${n}`;
+        }
+        usedIds.add(id);
+
+        const clause: Clause = {
+            id,
+            number,
+            heading,
+            kind: info.kind,
+            level: stack.length + 1,
+            start: lineStart,
+            end: text.length,
+            parentId: parent?.id ?? null,
+            children: [],
+        };
+
+        if (parent) parent.children.push(clause);
+        else roots.push(clause);
+        stack.push({ clause, rank: info.rank, kind: info.kind });
+    });
+
+    // Each clause runs until the next clause at its level or above
+    const flat = flattenClauses(roots);
+    flat.forEach((clause, idx) => {
+        const next = flat.slice(idx + 1).find(c => c.level <= clause.level);
+        clause.end = next ? next.start : text.length;
+    });
+
+    return roots;
+}
+
+/**
+ * All clauses in document order
+ */
+export function flattenClauses(clauses: Clause[]): Clause[] {
+    return clauses.flatMap(clause => [clause, ...flattenClauses(clause.children)]);
+}
+
+/**
+ * The innermost clause containing a character offset
+ */
+export function findClauseAt(clauses: Clause[], offset: number): Clause | null {
+    const match = clauses.find(c => offset >= c.start && offset < c.end);
+    if (!match) return null;
+    return findClauseAt(match.children, offset) ?? match;
+}
+
+export function findClause(clauses: Clause[], clauseId: string): Clause | null {
+    return flattenClauses(clauses).find(c => c.id === clauseId) ?? null;
+}
+
+export function getClauseText(text: string, clause: Clause): string {
+    return text.slice(clause.start, clause.end).trim();
+}
+
+/**
+ * Display label such as "4.2 Payment Terms" or "Article IV"
+ */
+export function formatClauseLabel(clause: Clause): string {
+    return [clause.number, clause.heading].filter(Boolean).join(' ');
+}
+
+/**
+ * Finds the clause a quoted passage comes from, using its first anchor
+ */
+export function locateClauseForQuote(clauses: Clause[], index: AnchorIndex, quote: string): string | null {
+    if (clauses.length === 0) return null;
+    const anchor = anchorQuote(index, quote).anchors[0];
+    return anchor ? findClauseAt(clauses, anchor.start)?.id ?? null : null;
+}
+
+/**
+ * Attaches each flag to the clause its quote comes from
+ */
+export function attachFlagsToClauses<T extends { original_text: string; clauseId: string | null }>(flags: T[], text: string): T[] {
+    const clauses = parseClauses(text);
+    const index = createAnchorIndex(text);
+    return flags.map(flag => ({ ...flag, clauseId: locateClauseForQuote(clauses, index, flag.original_text) }));
+}
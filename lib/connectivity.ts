@@ -0,0 +1,124 @@
+import { create } from 'zustand';
+
+/**
+ * Whether the browser is online and the API answers, kept up to date by the connectivity monitor
+ */
+interface ConnectivityState {
+    online: boolean; // navigator.onLine
+    apiReachable: boolean; // Result of the last health probe (or request)
+    lastCheckedAt: number | null;
+}
+
+export const useConnectivity = create<ConnectivityState>(() => ({
+    online: true,
+    apiReachable: true,
+    lastCheckedAt: null,
+}));
+
+// Probe every 30s while connected, more often while the API is down so the banner clears quickly
+const PROBE_INTERVAL = 30000;
+const PROBE_INTERVAL_WHILE_DOWN = 5000;
+
+let probeNow: (() => void) | null = null;
+
+export const isConnectionDown = () => {
+    const { online, apiReachable } = useConnectivity.getState();
+    return !online || !apiReachable;
+};
+
+/**
+ * Lets the request layer feed results in: a success proves the API is up,
+ * a network failure triggers an early probe rather than flipping straight to offline
+ */
+export function reportRequestResult(succeeded: boolean) {
+    if (succeeded) {
+        if (!useConnectivity.getState().apiReachable) {
+            useConnectivity.setState({ apiReachable: true, lastCheckedAt: Date.now() });
+        }
+    } else {
+        probeNow?.();
+    }
+}
+
+/**
+ * Probes the API straight away, e.g. from the banner's "Retry now"
+ */
+export function checkConnectionNow() {
+    probeNow?.();
+}
+
+/**
+ * Resolves once the browser is online and the API is reachable; rejects with an AbortError if the signal fires first
+ */
+export function waitForConnection(signal?: AbortSignal): Promise<void> {
+    if (!isConnectionDown()) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            unsubscribe();
+            reject(new DOMException('The operation was aborted.', 'AbortError'));
+        };
+        const unsubscribe = useConnectivity.subscribe(() => {
+            if (isConnectionDown()) return;
+            unsubscribe();
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        });
+
+        if (signal?.aborted) onAbort();
+        else signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Tracks navigator.onLine and polls `probe` (the API health check). Returns a function that stops monitoring.
+ */
+export function startConnectivityMonitor(probe: (signal: AbortSignal) => Promise<boolean>): () => void {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let controller: AbortController | null = null;
+
+    const schedule = () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(runProbe, isConnectionDown() ? PROBE_INTERVAL_WHILE_DOWN : PROBE_INTERVAL);
+    };
+
+    const runProbe = async () => {
+        if (!navigator.onLine) {
+            useConnectivity.setState({ online: false });
+            schedule();
+            return;
+        }
+        controller?.abort();
+        const current = new AbortController();
+        controller = current;
+
+        const reachable = await probe(current.signal);
+        if (current.signal.aborted) return; // Superseded by a newer probe, or stopped
+        controller = null;
+        useConnectivity.setState({ online: navigator.onLine, apiReachable: reachable, lastCheckedAt: Date.now() });
+        schedule();
+    };
+
+    const handleOnline = () => {
+        useConnectivity.setState({ online: true });
+        runProbe();
+    };
+    const handleOffline = () => {
+        useConnectivity.setState({ online: false });
+        schedule();
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    probeNow = runProbe;
+    useConnectivity.setState({ online: navigator.onLine });
+    runProbe();
+
+    return () => {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+        if (timer) clearTimeout(timer);
+        controller?.abort();
+        if (probeNow === runProbe) probeNow = null;
+    };
+}
@@ -1,148 +1,452 @@
+import { useSyncExternalStore } from 'react';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { AnalysisResult } from './api';
+import { AnalysisResult, normalizeAnalysisResult } from './api';
+import { createIdbStorage } from './idb-storage';
+import { DEFAULT_JURISDICTION } from './jurisdictions';
+import { attachFlagsToClauses } from './clauses';
+import { FlagDelta, reconcileFlags, withContentIds } from './flags';
+import { NegotiationStrategy } from './strategy';
 
 export interface FlagWithText {
     id: string;
     analysis: string;
     original_text: string;
     type: 'red' | 'yellow' | 'green';
+    clauseId: string | null; // Clause the quote comes from, see lib/clauses
 }
 
-export interface ContractState {
-    // State
+export type VersionSource = 'upload' | 'ai-edit' | 'reanalysis' | 'manual';
+
+export interface ContractVersion {
+    id: string;
+    label: string;
+    source: VersionSource;
+    content: string;
+    createdAt: number;
+    strategy?: NegotiationStrategy; // The copilot's plan behind an accepted AI edit, quoted in counterparty letters
+}
+
+/**
+ * One analysis of the contract, kept so progress can be compared across re-analyses
+ */
+export interface AnalysisRun {
+    id: string;
+    analysis: AnalysisResult;
+    versionId: string | null; // Contract version that was analysed
+    createdAt: number;
+}
+
+export interface ExplanationFollowUp {
+    question: string;
+    answer: string;
+}
+
+/**
+ * A cached "Explain Risk" answer, with any follow-up questions asked about it
+ */
+export interface FlagExplanation {
+    text: string;
+    followUps: ExplanationFollowUp[];
+    createdAt: number;
+}
+
+export interface ChatMessage {
+    role: 'user' | 'agent';
+    text: string;
+    stopped?: boolean; // Reply was cancelled by the user before it finished
+    failed?: boolean; // Error notice rather than a reply; never sent back as history
+    strategy?: NegotiationStrategy; // Plan the agent streamed before this reply
+}
+
+/**
+ * Everything the workspace keeps for one contract
+ */
+export interface ContractRecord {
     contractId: string;
+    name: string;
     file: File | null;
     contractContent: string;
-    analysisResult: AnalysisResult | null;
+    analysisResult: AnalysisResult | null; // Latest run's analysis
+    analysisRuns: AnalysisRun[]; // Oldest first
     flags: FlagWithText[];
     jurisdiction: string;
+    versions: ContractVersion[];
+    versionIndex: number; // Position of contractContent in versions; later entries are redo history
+    chatHistory: ChatMessage[];
+    flagDelta: FlagDelta<FlagWithText> | null; // How the latest analysis compares with the one before
+    explanations: Record<string, FlagExplanation>; // By flag ID, so they survive re-analysis
+    createdAt: number;
+    updatedAt: number;
+}
 
-    // Actions
-    setContract: (file: File, content: string) => void;
+export interface ContractState {
+    // State
+    contracts: Record<string, ContractRecord>;
+    activeContractId: string;
+
+    // Workspace actions
+    createContract: (file: File, content: string, jurisdiction?: string) => string;
+    setActiveContract: (contractId: string) => void;
+    renameContract: (contractId: string, name: string) => void;
+    duplicateContract: (contractId: string) => string | null;
+    deleteContract: (contractId: string) => void;
+    setExplanation: (contractId: string, flagId: string, text: string) => void;
+    addExplanationFollowUp: (contractId: string, flagId: string, followUp: ExplanationFollowUp) => void;
+
+    // Actions on the active contract
     setAnalysis: (analysis: AnalysisResult) => void;
     removeNegotiatedClause: (clauseId: string) => void;
-    updateContractContent: (content: string) => void;
+    updateContractContent: (content: string, label?: string, source?: VersionSource, strategy?: NegotiationStrategy) => void;
     setJurisdiction: (jurisdiction: string) => void;
+    setChatHistory: (messages: ChatMessage[]) => void;
+    undo: () => void;
+    redo: () => void;
+    restoreVersion: (versionId: string) => void;
     reset: () => void;
 }
 
-// Helper to convert analysis flags to our flag format with IDs
-const convertAnalysisToFlags = (analysis: AnalysisResult): FlagWithText[] => {
-    const flags: FlagWithText[] = [];
-
-    // Red flags
-    if (analysis.red_flags) {
-        analysis.red_flags.forEach((flag, idx) => {
-            const flagData = typeof flag === 'string'
-                ? { analysis: flag, original_text: 'N/A' }
-                : flag;
-            flags.push({
-                id: `red-${idx}`,
-                analysis: flagData.analysis,
-                original_text: flagData.original_text,
-                type: 'red'
-            });
-        });
-    }
+// Slice of the store written to storage
+type PersistedContractState = Pick<ContractState, 'contracts' | 'activeContractId'>;
 
-    // Yellow flags
-    if (analysis.yellow_flags) {
-        analysis.yellow_flags.forEach((flag, idx) => {
-            const flagData = typeof flag === 'string'
-                ? { analysis: flag, original_text: 'N/A' }
-                : flag;
-            flags.push({
-                id: `yellow-${idx}`,
-                analysis: flagData.analysis,
-                original_text: flagData.original_text,
-                type: 'yellow'
-            });
-        });
-    }
+const createVersion = (content: string, label: string, source: VersionSource, strategy?: NegotiationStrategy): ContractVersion => ({
+    id: `v-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    label,
+    source,
+    content,
+    createdAt: Date.now(),
+    ...(strategy && { strategy }),
+});
+
+// Switch to another snapshot, re-attaching flags to that version's clauses
+const moveToVersion = (contract: ContractRecord, index: number): Partial<ContractRecord> => ({
+    versionIndex: index,
+    contractContent: contract.versions[index].content,
+    flags: attachFlagsToClauses(contract.flags, contract.versions[index].content),
+});
+
+const createContractId = (name: string) =>
+    `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'contract'}-${Date.now().toString(36)}`;
+
+const createAnalysisRun = (analysis: AnalysisResult, versionId: string | null, createdAt = Date.now()): AnalysisRun => ({
+    id: `run-${createdAt}-${Math.random().toString(36).slice(2, 7)}`,
+    analysis,
+    versionId,
+    createdAt,
+});
+
+// Helper to convert analysis flags to our flag format with content-derived IDs
+export const convertAnalysisToFlags = (analysis: AnalysisResult): FlagWithText[] => {
+    const toFlags = (list: AnalysisResult['red_flags'], type: FlagWithText['type']) =>
+        list.map(flag => ({ analysis: flag.analysis, original_text: flag.original_text, type, clauseId: null }));
+
+    return withContentIds([
+        ...toFlags(analysis.red_flags, 'red'),
+        ...toFlags(analysis.yellow_flags, 'yellow'),
+        ...toFlags(analysis.green_flags, 'green'),
+    ]);
+};
 
-    // Green flags
-    if (analysis.green_flags) {
-        analysis.green_flags.forEach((flag, idx) => {
-            const flagData = typeof flag === 'string'
-                ? { analysis: flag, original_text: 'N/A' }
-                : flag;
-            flags.push({
-                id: `green-${idx}`,
-                analysis: flagData.analysis,
-                original_text: flagData.original_text,
-                type: 'green'
-            });
-        });
+/**
+ * v0 stored a single global contract; wrap it into the workspace
+ */
+const migrateSingleContract = (persisted: unknown): PersistedContractState => {
+    const legacy = (persisted ?? {}) as {
+        contractId?: string;
+        contractContent?: string;
+        analysisResult?: AnalysisResult | null;
+        flags?: FlagWithText[];
+        jurisdiction?: string;
+        versions?: ContractVersion[];
+        versionIndex?: number;
+    };
+    if (!legacy.contractId || !legacy.contractContent) {
+        return { contracts: {}, activeContractId: '' };
     }
 
-    return flags;
+    const now = Date.now();
+    const versions = legacy.versions?.length
+        ? legacy.versions
+        : [createVersion(legacy.contractContent, 'Original upload', 'upload')];
+    const record: ContractRecord = {
+        contractId: legacy.contractId,
+        name: legacy.analysisResult?.contract_type || legacy.contractId,
+        file: null,
+        contractContent: legacy.contractContent,
+        analysisResult: legacy.analysisResult ?? null,
+        analysisRuns: [],
+        flags: legacy.flags ?? [],
+        jurisdiction: legacy.jurisdiction || DEFAULT_JURISDICTION,
+        versions,
+        versionIndex: legacy.versionIndex ?? versions.length - 1,
+        chatHistory: [],
+        flagDelta: null,
+        explanations: {},
+        createdAt: now,
+        updatedAt: now,
+    };
+    return { contracts: { [record.contractId]: record }, activeContractId: record.contractId };
 };
 
 export const useContractStore = create<ContractState>()(
     persist(
-        (set) => ({
-            // Initial state
-            contractId: '',
-            file: null,
-            contractContent: '',
-            analysisResult: null,
-            flags: [],
-            jurisdiction: 'United States (General)',
-
-            // Actions
-            setContract: (file, content) => {
-                const contractId = `${file.name}-${Date.now()}`;
-                set({
-                    contractId,
-                    file,
-                    contractContent: content,
+        (set, get) => {
+            // Apply an update to one contract and bump its updatedAt
+            const updateContract = (contractId: string, updater: (contract: ContractRecord) => Partial<ContractRecord>) => {
+                set((state) => {
+                    const contract = state.contracts[contractId];
+                    if (!contract) return state;
+                    return {
+                        contracts: {
+                            ...state.contracts,
+                            [contractId]: { ...contract, ...updater(contract), updatedAt: Date.now() },
+                        },
+                    };
                 });
-            },
+            };
 
-            setAnalysis: (analysis) => {
-                const flags = convertAnalysisToFlags(analysis);
-                set({
-                    analysisResult: analysis,
-                    flags,
-                });
-            },
+            const updateActive = (updater: (contract: ContractRecord) => Partial<ContractRecord>) => {
+                updateContract(get().activeContractId, updater);
+            };
 
-            removeNegotiatedClause: (clauseId) => {
-                set((state) => ({
-                    flags: state.flags.filter(flag => flag.id !== clauseId)
-                }));
-            },
+            return {
+                // Initial state
+                contracts: {},
+                activeContractId: '',
 
-            updateContractContent: (content) => {
-                set({ contractContent: content });
-            },
+                // Workspace actions
+                createContract: (file, content, jurisdiction = DEFAULT_JURISDICTION) => {
+                    const contractId = createContractId(file.name);
+                    const now = Date.now();
+                    set((state) => ({
+                        activeContractId: contractId,
+                        contracts: {
+                            ...state.contracts,
+                            [contractId]: {
+                                contractId,
+                                name: file.name,
+                                file,
+                                contractContent: content,
+                                analysisResult: null,
+                                analysisRuns: [],
+                                flags: [],
+                                jurisdiction,
+                                versions: [createVersion(content, 'Original upload', 'upload')],
+                                versionIndex: 0,
+                                chatHistory: [],
+                                flagDelta: null,
+                                explanations: {},
+                                createdAt: now,
+                                updatedAt: now,
+                            },
+                        },
+                    }));
+                    return contractId;
+                },
 
-            setJurisdiction: (jurisdiction) => {
-                set({ jurisdiction });
-            },
+                setActiveContract: (contractId) => {
+                    if (get().contracts[contractId]) {
+                        set({ activeContractId: contractId });
+                    }
+                },
 
-            reset: () => {
-                set({
-                    contractId: '',
-                    file: null,
-                    contractContent: '',
-                    analysisResult: null,
-                    flags: [],
-                    jurisdiction: 'United States (General)',
-                });
-            },
-        }),
+                renameContract: (contractId, name) => {
+                    if (!name.trim()) return;
+                    updateContract(contractId, () => ({ name: name.trim() }));
+                },
+
+                duplicateContract: (contractId) => {
+                    const source = get().contracts[contractId];
+                    if (!source) return null;
+
+                    const name = `${source.name} (copy)`;
+                    const copyId = createContractId(name);
+                    const now = Date.now();
+                    set((state) => ({
+                        contracts: {
+                            ...state.contracts,
+                            [copyId]: { ...source, contractId: copyId, name, createdAt: now, updatedAt: now },
+                        },
+                    }));
+                    return copyId;
+                },
+
+                deleteContract: (contractId) => {
+                    set((state) => {
+                        const contracts = { ...state.contracts };
+                        delete contracts[contractId];
+                        return {
+                            contracts,
+                            activeContractId: state.activeContractId === contractId ? '' : state.activeContractId,
+                        };
+                    });
+                },
+
+                // A new explanation (or a regenerated one) starts a fresh follow-up thread
+                setExplanation: (contractId, flagId, text) => {
+                    updateContract(contractId, (contract) => ({
+                        explanations: { ...contract.explanations, [flagId]: { text, followUps: [], createdAt: Date.now() } },
+                    }));
+                },
+
+                addExplanationFollowUp: (contractId, flagId, followUp) => {
+                    updateContract(contractId, (contract) => {
+                        const explanation = contract.explanations[flagId];
+                        if (!explanation) return {};
+                        return {
+                            explanations: {
+                                ...contract.explanations,
+                                [flagId]: { ...explanation, followUps: [...explanation.followUps, followUp] },
+                            },
+                        };
+                    });
+                },
+
+                // Actions on the active contract
+                setAnalysis: (analysis) => {
+                    updateActive((contract) => {
+                        const flags = attachFlagsToClauses(convertAnalysisToFlags(analysis), contract.contractContent);
+                        const analysisRuns = [
+                            ...contract.analysisRuns,
+                            createAnalysisRun(analysis, contract.versions[contract.versionIndex]?.id ?? null),
+                        ];
+                        if (!contract.analysisResult) return { analysisResult: analysis, analysisRuns, flags, flagDelta: null };
+
+                        // Compare against the full previous analysis, including flags already negotiated away
+                        const previousFlags = convertAnalysisToFlags(contract.analysisResult).map(flag => ({
+                            ...flag,
+                            clauseId: contract.flags.find(f => f.id === flag.id)?.clauseId ?? null,
+                        }));
+                        return { analysisResult: analysis, analysisRuns, flags, flagDelta: reconcileFlags(previousFlags, flags) };
+                    });
+                },
+
+                removeNegotiatedClause: (clauseId) => {
+                    updateActive((contract) => ({
+                        flags: contract.flags.filter(flag => flag.id !== clauseId)
+                    }));
+                },
+
+                // Every content change is a snapshot; committing after an undo drops the redo history
+                updateContractContent: (content, label = 'Manual edit', source = 'manual', strategy) => {
+                    updateActive((contract) => {
+                        const versions = [
+                            ...contract.versions.slice(0, contract.versionIndex + 1),
+                            createVersion(content, label, source, strategy),
+                        ];
+                        return {
+                            contractContent: content,
+                            flags: attachFlagsToClauses(contract.flags, content),
+                            versions,
+                            versionIndex: versions.length - 1,
+                        };
+                    });
+                },
+
+                setJurisdiction: (jurisdiction) => {
+                    updateActive(() => ({ jurisdiction }));
+                },
+
+                setChatHistory: (messages) => {
+                    updateActive(() => ({ chatHistory: messages }));
+                },
+
+                undo: () => {
+                    updateActive((contract) => contract.versionIndex <= 0 ? {} : moveToVersion(contract, contract.versionIndex - 1));
+                },
+
+                redo: () => {
+                    updateActive((contract) => contract.versionIndex >= contract.versions.length - 1 ? {} : moveToVersion(contract, contract.versionIndex + 1));
+                },
+
+                restoreVersion: (versionId) => {
+                    updateActive((contract) => {
+                        const index = contract.versions.findIndex(v => v.id === versionId);
+                        return index === -1 ? {} : moveToVersion(contract, index);
+                    });
+                },
+
+                reset: () => {
+                    set({ contracts: {}, activeContractId: '' });
+                },
+            };
+        },
         {
             name: 'contract-storage',
-            // Don't persist file object (not serializable)
-            partialize: (state) => ({
-                contractId: state.contractId,
-                contractContent: state.contractContent,
-                analysisResult: state.analysisResult,
-                flags: state.flags,
-                jurisdiction: state.jurisdiction,
+            // v0: single contract in localStorage, v1: workspace in localStorage, v2: workspace in IndexedDB with original files,
+            // v3: flags carry clause IDs, v4: content-derived flag IDs and re-analysis deltas, v5: analysis runs,
+            // v6: explanations cached by flag ID, v7: stored analyses normalized, v8: chat error notices marked
+            version: 8,
+            storage: createIdbStorage<PersistedContractState>(),
+            partialize: (state): PersistedContractState => ({
+                activeContractId: state.activeContractId,
+                contracts: state.contracts,
             }),
+            migrate: (persisted, version): PersistedContractState => {
+                // v1 -> v2 only moved storage backends; files from localStorage are gone either way
+                let state = version >= 1 ? persisted as PersistedContractState : migrateSingleContract(persisted);
+
+                const mapContracts = (update: (contract: ContractRecord) => ContractRecord) => {
+                    state = { ...state, contracts: Object.fromEntries(Object.entries(state.contracts).map(([id, c]) => [id, update(c)])) };
+                };
+
+                // v3 attaches flags to clause IDs
+                if (version < 3) {
+                    mapContracts((contract) => ({
+                        ...contract,
+                        flags: attachFlagsToClauses(contract.flags.map(flag => ({ ...flag, clauseId: null })), contract.contractContent),
+                    }));
+                }
+                // v4 replaces index-based flag IDs with content-derived ones
+                if (version < 4) {
+                    mapContracts((contract) => ({ ...contract, flags: withContentIds(contract.flags), flagDelta: null }));
+                }
+                // v5 keeps every analysis as a run; earlier ones only kept the latest
+                if (version < 5) {
+                    mapContracts((contract) => ({
+                        ...contract,
+                        analysisRuns: contract.analysisResult
+                            ? [createAnalysisRun(contract.analysisResult, contract.versions[contract.versionIndex]?.id ?? null, contract.updatedAt)]
+                            : [],
+                    }));
+                }
+                if (version < 6) {
+                    mapContracts((contract) => ({ ...contract, explanations: {} }));
+                }
+                // v7 runs saved analyses through the same normalizer as fresh ones (legacy string flags etc.)
+                if (version < 7) {
+                    const normalize = (analysis: AnalysisResult) => normalizeAnalysisResult(analysis).analysis;
+                    mapContracts((contract) => ({
+                        ...contract,
+                        analysisResult: contract.analysisResult ? normalize(contract.analysisResult) : null,
+                        analysisRuns: contract.analysisRuns.map(run => ({ ...run, analysis: normalize(run.analysis) })),
+                    }));
+                }
+                // v8 marks error notices so they aren't sent back as chat history
+                if (version < 8) {
+                    mapContracts((contract) => ({
+                        ...contract,
+                        chatHistory: contract.chatHistory.map(m => m.role === 'agent' && m.text.startsWith('❌') ? { ...m, failed: true } : m),
+                    }));
+                }
+                return state;
+            },
         }
     )
 );
+
+/**
+ * Selects the active contract, or undefined when the workspace has none open
+ */
+export const useActiveContract = () =>
+    useContractStore((state) => state.contracts[state.activeContractId] as ContractRecord | undefined);
+
+/**
+ * True once the persisted workspace has been loaded (always false during server rendering)
+ */
+export const useStoreHydrated = () =>
+    useSyncExternalStore(
+        (onChange) => useContractStore.persist.onFinishHydration(onChange),
+        () => useContractStore.persist.hasHydrated(),
+        () => false
+    );
@@ -0,0 +1,126 @@
+/**
+ * Minimal .docx writer for generated letters: plain paragraphs, optionally bold.
+ * A .docx is a zip of XML parts; they're small, so they're stored uncompressed.
+ */
+
+export interface DocxParagraph {
+    text: string;
+    bold?: boolean;
+}
+
+const CONTENT_TYPES = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+    + '</Types>';
+
+const RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+    + '</Relationships>';
+
+// Characters XML 1.0 doesn't allow at all are dropped; the five markup characters are escaped
+const INVALID_XML = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+const escapeXml = (text: string) => text
+    .replace(INVALID_XML, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+function documentXml(paragraphs: DocxParagraph[]): string {
+    const body = paragraphs.map(({ text, bold }) => {
+        if (!text) return '<w:p/>';
+        const props = bold ? '<w:rPr><w:b/></w:rPr>' : '';
+        return `<w:p><w:r>${props}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+    }).join('');
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">'
+        + `<w:body>${body}<w:sectPr/></w:body></w:document>`;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Zip with every entry stored (method 0); names and timestamps are fixed, so output is deterministic
+function zipStored(files: { name: string; data: Uint8Array }[]): Uint8Array<ArrayBuffer> {
+    const encoder = new TextEncoder();
+    const DOS_DATE = (0 << 9) | (1 << 5) | 1; // 1980-01-01
+    const UTF8_NAMES = 0x0800;
+    const entries = files.map(file => ({ ...file, nameBytes: encoder.encode(file.name), crc: crc32(file.data) }));
+
+    const localSize = entries.reduce((sum, e) => sum + 30 + e.nameBytes.length + e.data.length, 0);
+    const centralSize = entries.reduce((sum, e) => sum + 46 + e.nameBytes.length, 0);
+    const out = new Uint8Array(localSize + centralSize + 22);
+    const view = new DataView(out.buffer);
+    let pos = 0;
+    const offsets: number[] = [];
+
+    for (const e of entries) {
+        offsets.push(pos);
+        view.setUint32(pos, 0x04034b50, true);
+        view.setUint16(pos + 4, 20, true);
+        view.setUint16(pos + 6, UTF8_NAMES, true);
+        view.setUint16(pos + 8, 0, true);
+        view.setUint16(pos + 10, 0, true);
+        view.setUint16(pos + 12, DOS_DATE, true);
+        view.setUint32(pos + 14, e.crc, true);
+        view.setUint32(pos + 18, e.data.length, true);
+        view.setUint32(pos + 22, e.data.length, true);
+        view.setUint16(pos + 26, e.nameBytes.length, true);
+        view.setUint16(pos + 28, 0, true);
+        out.set(e.nameBytes, pos + 30);
+        out.set(e.data, pos + 30 + e.nameBytes.length);
+        pos += 30 + e.nameBytes.length + e.data.length;
+    }
+
+    const centralStart = pos;
+    entries.forEach((e, idx) => {
+        view.setUint32(pos, 0x02014b50, true);
+        view.setUint16(pos + 4, 20, true);
+        view.setUint16(pos + 6, 20, true);
+        view.setUint16(pos + 8, UTF8_NAMES, true);
+        view.setUint16(pos + 10, 0, true);
+        view.setUint16(pos + 12, 0, true);
+        view.setUint16(pos + 14, DOS_DATE, true);
+        view.setUint32(pos + 16, e.crc, true);
+        view.setUint32(pos + 20, e.data.length, true);
+        view.setUint32(pos + 24, e.data.length, true);
+        view.setUint16(pos + 28, e.nameBytes.length, true);
+        // Extra field, comment, disk number and attributes are all zero
+        view.setUint32(pos + 42, offsets[idx], true);
+        out.set(e.nameBytes, pos + 46);
+        pos += 46 + e.nameBytes.length;
+    });
+
+    view.setUint32(pos, 0x06054b50, true);
+    view.setUint16(pos + 8, entries.length, true);
+    view.setUint16(pos + 10, entries.length, true);
+    view.setUint32(pos + 12, pos - centralStart, true);
+    view.setUint32(pos + 16, centralStart, true);
+    return out;
+}
+
+/**
+ * Builds a Word document from paragraphs; empty text makes a blank line
+ */
+export function createDocx(paragraphs: DocxParagraph[]): Blob {
+    const encoder = new TextEncoder();
+    const zip = zipStored([
+        { name: '[Content_Types].xml', data: encoder.encode(CONTENT_TYPES) },
+        { name: '_rels/.rels', data: encoder.encode(RELS) },
+        { name: 'word/document.xml', data: encoder.encode(documentXml(paragraphs)) },
+    ]);
+    return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+}
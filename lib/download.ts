@@ -0,0 +1,25 @@
+/**
+ * Triggers a browser download for a generated file
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    // Give the browser a moment to start the download before releasing the URL
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Builds a download name from an uploaded file, e.g. "msa.docx" -> "msa-redlined.docx"
+ */
+export function withFileSuffix(filename: string, suffix: string, extension?: string): string {
+    const dot = filename.lastIndexOf('.');
+    const base = dot > 0 ? filename.slice(0, dot) : filename;
+    const ext = extension ?? (dot > 0 ? filename.slice(dot + 1) : '');
+    return ext ? `${base}-${suffix}.${ext}` : `${base}-${suffix}`;
+}
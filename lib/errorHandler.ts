@@ -1,5 +1,37 @@
 import { showToast } from '@/components/Toast';
 
+/**
+ * What went wrong, independent of where: each code has its own user message and recovery actions
+ */
+export type ErrorCode =
+    | 'validation'
+    | 'file_too_large'
+    | 'unsupported_format'
+    | 'irrelevant_document'
+    | 'rate_limited'
+    | 'timeout'
+    | 'network'
+    | 'server'
+    | 'stream_interrupted'
+    | 'unknown';
+
+/**
+ * Ways the user can recover; screens render the ones they can handle as buttons
+ */
+export type RecoveryAction = 'retry' | 'paste_text' | 'split_document' | 'choose_file';
+
+export const RECOVERY_ACTION_LABELS: Record<RecoveryAction, string> = {
+    retry: 'Try again',
+    paste_text: 'Switch to Paste Text',
+    split_document: 'Split the document',
+    choose_file: 'Choose another file',
+};
+
+export interface ApiErrorDetails {
+    code?: ErrorCode; // Overrides the code implied by the status
+    retryAfter?: number; // Seconds, from a Retry-After header
+}
+
 /**
  * Custom error class for API errors
  */
@@ -7,57 +39,334 @@ export class ApiError extends Error {
     constructor(
         message: string,
         public statusCode?: number,
-        public details?: any
+        public details: ApiErrorDetails = {}
     ) {
         super(message);
         this.name = 'ApiError';
     }
+
+    get code(): ErrorCode {
+        return this.details.code ?? codeForStatus(this.statusCode);
+    }
+}
+
+function codeForStatus(status: number | undefined): ErrorCode {
+    if (status === undefined) return 'unknown';
+    if (status === 0) return 'network';
+    if (status === 408) return 'timeout';
+    if (status === 413) return 'file_too_large';
+    if (status === 415) return 'unsupported_format';
+    if (status === 429) return 'rate_limited';
+    if (status >= 500) return 'server';
+    if (status >= 400) return 'validation';
+    return 'unknown';
+}
+
+interface ErrorCodeInfo {
+    message: string;
+    // The error's own message is more specific than the generic one (e.g. "Contract text cannot be empty")
+    preferOwnMessage?: boolean;
+    actions: RecoveryAction[];
+}
+
+const ERROR_CODES: Record<ErrorCode, ErrorCodeInfo> = {
+    validation: { message: 'Please check your input and try again.', preferOwnMessage: true, actions: [] },
+    file_too_large: {
+        message: 'This file is too large to analyse in one go (10MB limit).',
+        actions: ['split_document', 'paste_text'],
+    },
+    unsupported_format: {
+        message: "We couldn't read this file. Scanned PDFs and some formats aren't supported.",
+        preferOwnMessage: true,
+        actions: ['paste_text', 'choose_file'],
+    },
+    irrelevant_document: {
+        message: "This doesn't look like a contract.",
+        preferOwnMessage: true,
+        actions: ['choose_file', 'paste_text'],
+    },
+    rate_limited: { message: 'Too many requests right now. Please wait a moment before trying again.', actions: ['retry'] },
+    timeout: {
+        message: 'The request took too long. Large contracts can time out, so try again or analyse the contract in parts.',
+        actions: ['retry', 'split_document'],
+    },
+    network: { message: "Can't reach LegalSay. Please check your internet connection.", actions: ['retry'] },
+    server: { message: 'Something went wrong on our side. Please try again shortly.', actions: ['retry'] },
+    stream_interrupted: {
+        message: 'The reply was cut off before it finished. What arrived so far has been kept.',
+        actions: ['retry'],
+    },
+    unknown: { message: 'An unexpected error occurred. Please try again.', preferOwnMessage: true, actions: ['retry'] },
+};
+
+/**
+ * An error ready to show: its code, what to tell the user, and how they can recover
+ */
+export interface ErrorDescription {
+    code: ErrorCode;
+    message: string;
+    actions: RecoveryAction[];
+}
+
+export function getErrorCode(error: unknown): ErrorCode {
+    if (error instanceof ApiError) return error.code;
+    if (error instanceof TypeError) return 'network'; // fetch rejects with a TypeError when the request can't be made
+    if (error instanceof DOMException && error.name === 'TimeoutError') return 'timeout';
+    return 'unknown';
+}
+
+export function describeError(error: unknown): ErrorDescription {
+    const code = getErrorCode(error);
+    const info = ERROR_CODES[code];
+
+    let message = info.message;
+    if (info.preferOwnMessage && error instanceof Error && error.message) {
+        message = error.message;
+    }
+    if (code === 'rate_limited' && error instanceof ApiError && error.details.retryAfter) {
+        message = `Too many requests right now. Please try again in ${Math.ceil(error.details.retryAfter)} seconds.`;
+    }
+    return { code, message, actions: info.actions };
+}
+
+/**
+ * True when the error comes from an AbortSignal, i.e. the user cancelled the request
+ */
+export function isAbortError(error: unknown): boolean {
+    return (error instanceof Error || error instanceof DOMException) && error.name === 'AbortError';
 }
 
 /**
  * Gets a user-friendly error message from an error object
  */
 export function getUserFriendlyMessage(error: unknown): string {
-    if (error instanceof ApiError) {
-        // API-specific errors
-        if (error.statusCode === 404) {
-            return 'The requested resource was not found. Please try again.';
-        }
-        if (error.statusCode === 500) {
-            return 'Server error occurred. Our team has been notified. Please try again later.';
-        }
-        if (error.statusCode === 503) {
-            return 'Service temporarily unavailable. Please try again in a few moments.';
-        }
-        return error.message;
+    return describeError(error).message;
+}
+
+/**
+ * Something that happened shortly before an error: an API call, a page transition, a stream event
+ */
+export interface Breadcrumb {
+    category: 'api' | 'navigation' | 'stream';
+    message: string; // e.g. "POST /analyze_contract/", "/report/abc123", "strategy"
+    data?: Record<string, unknown>;
+    timestamp: number;
+}
+
+/**
+ * What leaves the browser for one error. Built by reportError and scrubbed before any reporter sees it.
+ */
+export interface ErrorReport {
+    context: string;
+    name: string;
+    message: string; // The generic message for the error's code unless it's a programming error, see reportableMessage
+    code: ErrorCode;
+    statusCode?: number;
+    stack?: string;
+    extra?: unknown;
+    breadcrumbs: Breadcrumb[];
+    path: string; // Pathname only; query strings can carry user input
+    timestamp: number;
+}
+
+/**
+ * Where error reports go: the batching HTTP reporter in production, the console or nowhere in development
+ */
+export interface ErrorReporter {
+    report(report: ErrorReport): void;
+    flush(): void; // Send anything batched, e.g. before the page is hidden
+}
+
+export const noopReporter: ErrorReporter = {
+    report() { },
+    flush() { },
+};
+
+/**
+ * Prints each report as it would be sent, so scrubbing can be checked locally
+ */
+export const consoleReporter: ErrorReporter = {
+    report(report) {
+        console.groupCollapsed(`📤 Error report (not sent): ${report.context}`);
+        console.log(report);
+        console.groupEnd();
+    },
+    flush() { },
+};
+
+export interface HttpReporterOptions {
+    batchSize?: number; // Send as soon as this many reports are queued
+    flushInterval?: number; // Otherwise send this long after the first one, in ms
+}
+
+/**
+ * Posts reports to `endpoint` in batches as `{ reports: ErrorReport[] }`.
+ * Uses a keepalive fetch so a flush on pagehide still goes out; delivery failures are dropped, never reported.
+ */
+export function createHttpReporter(endpoint: string, { batchSize = 10, flushInterval = 5000 }: HttpReporterOptions = {}): ErrorReporter {
+    let queue: ErrorReport[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+        if (queue.length === 0) return;
+
+        const body = JSON.stringify({ reports: queue });
+        queue = [];
+        fetch(endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body,
+            keepalive: true,
+        }).catch(() => { });
+    };
+
+    return {
+        report(report) {
+            queue.push(report);
+            if (queue.length >= batchSize) flush();
+            else if (!timer) timer = setTimeout(flush, flushInterval);
+        },
+        flush,
+    };
+}
+
+let reporter: ErrorReporter | null = null;
+
+// NEXT_PUBLIC_ERROR_REPORT_URL turns on reporting; without it development prints reports and production drops them
+function getReporter(): ErrorReporter {
+    if (!reporter) {
+        const endpoint = process.env.NEXT_PUBLIC_ERROR_REPORT_URL;
+        if (endpoint && typeof window !== 'undefined') reporter = createHttpReporter(endpoint);
+        else reporter = process.env.NODE_ENV === 'development' ? consoleReporter : noopReporter;
     }
+    return reporter;
+}
 
-    if (error instanceof Error) {
-        // Network errors
-        if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
-            return 'Network connection error. Please check your internet connection and try again.';
-        }
+/**
+ * Replaces the reporter chosen from the environment, e.g. with one that forwards to Sentry
+ */
+export function setErrorReporter(next: ErrorReporter) {
+    reporter?.flush();
+    reporter = next;
+}
 
-        // Timeout errors
-        if (error.message.includes('timeout') || error.message.includes('timed out')) {
-            return 'Request timed out. Please try again.';
-        }
+const MAX_BREADCRUMBS = 30;
+const breadcrumbs: Breadcrumb[] = [];
 
-        // CORS errors
-        if (error.message.includes('CORS')) {
-            return 'Connection blocked by security policy. Please contact support.';
-        }
+/**
+ * Records a breadcrumb; only the most recent MAX_BREADCRUMBS are kept and sent with the next report
+ */
+export function addBreadcrumb(category: Breadcrumb['category'], message: string, data?: Record<string, unknown>) {
+    breadcrumbs.push({ category, message, data, timestamp: Date.now() });
+    if (breadcrumbs.length > MAX_BREADCRUMBS) breadcrumbs.shift();
+}
+
+// Anything this long is document or chat text rather than a diagnostic
+const MAX_TEXT_LENGTH = 200;
+const MAX_SCRUB_DEPTH = 4;
+// Fields that hold contract text, chat content or personal details, redacted whatever their length
+const SENSITIVE_KEY = /text|content|context|clause|history|question|answer|explanation|payload|body|email|phone|address/i;
+const EMAIL = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+// Phone, account and ID numbers: a run of 8+ digits, possibly split by spaces or punctuation
+const LONG_NUMBER = /\+?\d(?:[\s().-]*\d){7,}/g;
+
+const redactPii = (text: string) => text.replace(EMAIL, '[email]').replace(LONG_NUMBER, '[number]');
+
+/**
+ * Strips contract text and personal data from a value before it leaves the browser:
+ * sensitive fields and long strings are dropped, emails and long numbers are masked
+ */
+export function scrubValue(value: unknown, depth = 0): unknown {
+    if (typeof value === 'string') {
+        return value.length > MAX_TEXT_LENGTH ? `[redacted ${value.length} chars]` : redactPii(value);
+    }
+    if (typeof value === 'function' || typeof value === 'symbol') return undefined;
+    if (typeof value !== 'object' || value === null) return value;
+    if (depth >= MAX_SCRUB_DEPTH) return '[redacted]';
+    if (Array.isArray(value)) return value.map(item => scrubValue(item, depth + 1));
+
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+        key,
+        SENSITIVE_KEY.test(key) ? '[redacted]' : scrubValue(item, depth + 1),
+    ]));
+}
+
+// Runtime errors whose messages name code rather than data; other messages can quote the contract,
+// e.g. an API error carrying the backend's error text or a JSON parse error quoting the response
+const CODE_ERRORS = new Set(['TypeError', 'ReferenceError', 'RangeError']);
 
-        return error.message || 'An unexpected error occurred.';
+function reportableMessage(error: unknown): string {
+    if (error instanceof ApiError) return ERROR_CODES[error.code].message;
+    if (error instanceof Error && CODE_ERRORS.has(error.name) && error.message.length <= MAX_TEXT_LENGTH) {
+        return redactPii(error.message);
     }
+    const message = error instanceof Error ? error.message : String(error);
+    return `[redacted ${message.length} chars]`;
+}
+
+// V8 stacks start with the error's message; only the frames are sent
+const stackFrames = (stack: string) => {
+    const lines = stack.split('\n');
+    const first = lines.findIndex(line => /^\s+at /.test(line));
+    return redactPii((first > 0 ? lines.slice(first) : lines).join('\n'));
+};
+
+/**
+ * Sends an error to the configured reporter with the recent breadcrumbs. Cancelled requests aren't errors and are skipped.
+ */
+export function reportError(context: string, error: unknown, extra?: unknown) {
+    if (isAbortError(error)) return;
+
+    const err = error instanceof Error ? error : null;
+    getReporter().report({
+        context,
+        name: err?.name ?? typeof error,
+        message: reportableMessage(error),
+        code: getErrorCode(error),
+        statusCode: error instanceof ApiError ? error.statusCode : undefined,
+        stack: err?.stack ? stackFrames(err.stack) : undefined,
+        extra: extra === undefined ? undefined : scrubValue(extra),
+        breadcrumbs: breadcrumbs.map(crumb => ({
+            ...crumb,
+            message: redactPii(crumb.message),
+            data: crumb.data && (scrubValue(crumb.data) as Record<string, unknown>),
+        })),
+        path: typeof window !== 'undefined' ? window.location.pathname : '',
+        timestamp: Date.now(),
+    });
+}
+
+/**
+ * Reports uncaught errors and unhandled rejections, and flushes batched reports when the page is hidden.
+ * Returns a function that stops listening; mounted once from the root layout.
+ */
+export function startErrorReporting(): () => void {
+    const handleUncaught = (event: ErrorEvent) => reportError('Uncaught error', event.error ?? event.message);
+    const handleRejection = (event: PromiseRejectionEvent) => reportError('Unhandled rejection', event.reason);
+    const handleHidden = () => {
+        if (document.visibilityState === 'hidden') getReporter().flush();
+    };
+    const handlePageHide = () => getReporter().flush();
+
+    window.addEventListener('error', handleUncaught);
+    window.addEventListener('unhandledrejection', handleRejection);
+    document.addEventListener('visibilitychange', handleHidden);
+    window.addEventListener('pagehide', handlePageHide);
 
-    return 'An unexpected error occurred. Please try again.';
+    return () => {
+        window.removeEventListener('error', handleUncaught);
+        window.removeEventListener('unhandledrejection', handleRejection);
+        document.removeEventListener('visibilitychange', handleHidden);
+        window.removeEventListener('pagehide', handlePageHide);
+    };
 }
 
 /**
- * Logs error for development purposes
+ * Logs an error to the console and sends it to the error reporter
  */
-export function logError(context: string, error: unknown, additionalInfo?: any) {
+export function logError(context: string, error: unknown, additionalInfo?: unknown) {
     if (process.env.NODE_ENV === 'development') {
         console.group(`❌ Error in ${context}`);
         console.error('Error:', error);
@@ -66,10 +375,9 @@ export function logError(context: string, error: unknown, additionalInfo?: any)
         }
         console.groupEnd();
     } else {
-        // In production, you might want to send to an error tracking service
-        // e.g., Sentry, LogRocket, etc.
         console.error(`Error in ${context}:`, error);
     }
+    reportError(context, error, additionalInfo);
 }
 
 /**
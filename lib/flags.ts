@@ -0,0 +1,113 @@
+import { anchorQuote, createAnchorIndex } from './anchoring';
+
+type FlagType = 'red' | 'yellow' | 'green';
+
+/**
+ * The parts of a flag that identity and reconciliation look at
+ */
+export interface FlagContent {
+    type: FlagType;
+    analysis: string;
+    original_text: string;
+}
+
+export type FlagStatus = 'open' | 'changed' | 'new' | 'resolved';
+
+export interface FlagChange<T extends FlagContent & { id: string } = FlagContent & { id: string }> {
+    status: FlagStatus;
+    flag: T; // The current flag, or the previous one when resolved
+    previous?: T; // For changed flags, what it replaced
+}
+
+/**
+ * How a re-analysis compares with the one before it
+ */
+export interface FlagDelta<T extends FlagContent & { id: string } = FlagContent & { id: string }> {
+    comparedAt: number;
+    changes: FlagChange<T>[];
+}
+
+const normalizeQuote = (text: string) =>
+    text.replace(/-[ \t]*\n[ \t]*/g, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// FNV-1a: short, stable and good enough to tell quotes apart
+function hashString(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+}
+
+const hasQuote = (flag: FlagContent) => !!flag.original_text && flag.original_text.trim() !== 'N/A';
+
+/**
+ * Content-derived flag ID: category plus a hash of the normalized quote
+ * (or of the analysis when the flag has no quote), so IDs survive re-analysis
+ */
+export function getFlagId(flag: FlagContent): string {
+    const basis = hasQuote(flag) ? flag.original_text : flag.analysis;
+    return `${flag.type}-${hashString(normalizeQuote(basis))}`;
+}
+
+/**
+ * Gives every flag its content ID; repeats of the same quote and category get a numeric suffix
+ */
+export function withContentIds<T extends FlagContent>(flags: T[]): Array<T & { id: string }> {
+    const seen = new Map<string, number>();
+    return flags.map(flag => {
+        const base = getFlagId(flag);
+        const count = (seen.get(base) ?? 0) + 1;
+        seen.set(base, count);
+        return { ...flag, id: count === 1 ? base : `${base}-${count}` };
+    });
+}
+
+/**
+ * Whether two flags are about the same passage even though the quote or category changed.
+ * Sharing a clause isn't enough: a long clause can hold several unrelated issues.
+ */
+function isSamePassage(a: FlagContent, b: FlagContent): boolean {
+    if (!hasQuote(a) || !hasQuote(b)) return false;
+    if (normalizeQuote(a.original_text) === normalizeQuote(b.original_text)) return true;
+
+    // Edited clause: most of the new quote still appears in the old one
+    const shorter = a.original_text.length <= b.original_text.length ? a : b;
+    const longer = shorter === a ? b : a;
+    return anchorQuote(createAnchorIndex(longer.original_text), shorter.original_text).anchors.length > 0;
+}
+
+/**
+ * Compares a re-analysis with the previous one.
+ * Same ID: still open. Same passage with a new quote or category: changed. Otherwise new or resolved.
+ */
+export function reconcileFlags<T extends FlagContent & { id: string; clauseId?: string | null }>(allPrevious: T[], allCurrent: T[]): FlagDelta<T> {
+    // Green flags are positives, so only risks are tracked as resolved or new
+    const previous = allPrevious.filter(flag => flag.type !== 'green');
+    const current = allCurrent.filter(flag => flag.type !== 'green');
+
+    const previousById = new Map(previous.map(flag => [flag.id, flag]));
+    const unmatchedPrevious = new Set(previous.filter(flag => !current.some(c => c.id === flag.id)));
+    const changes: FlagChange<T>[] = [];
+
+    current.forEach(flag => {
+        if (previousById.has(flag.id)) {
+            changes.push({ status: 'open', flag });
+            return;
+        }
+        // Of the flags about the same passage, prefer one in the same clause
+        const candidates = [...unmatchedPrevious].filter(prev => isSamePassage(prev, flag));
+        const match = candidates.find(prev => flag.clauseId && prev.clauseId === flag.clauseId) ?? candidates[0];
+        if (match) {
+            unmatchedPrevious.delete(match);
+            changes.push({ status: 'changed', flag, previous: match });
+        } else {
+            changes.push({ status: 'new', flag });
+        }
+    });
+
+    unmatchedPrevious.forEach(flag => changes.push({ status: 'resolved', flag }));
+
+    return { comparedAt: Date.now(), changes };
+}
@@ -0,0 +1,165 @@
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+
+const DB_NAME = 'legalsay';
+// Bump when object stores change and extend the upgrade steps in openDatabase
+const DB_VERSION = 1;
+const STATE_STORE = 'state';
+const FILES_STORE = 'files';
+
+/**
+ * Minimal shape the adapter needs: a map of records that may carry an uploaded File
+ */
+interface WithFiles {
+    contracts: Record<string, { file: File | null }>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            // v1: serialized store state plus original uploads keyed by contract id
+            if (event.oldVersion < 1) {
+                db.createObjectStore(STATE_STORE);
+                db.createObjectStore(FILES_STORE);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+
+    return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+const isAvailable = () => typeof indexedDB !== 'undefined';
+
+/**
+ * Reads state left in localStorage by earlier releases, moving it into IndexedDB
+ */
+function readLegacyLocalStorage<S>(name: string): StorageValue<S> | null {
+    if (typeof localStorage === 'undefined') return null;
+    const raw = localStorage.getItem(name);
+    if (!raw) return null;
+
+    try {
+        return JSON.parse(raw) as StorageValue<S>;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Zustand storage adapter backed by IndexedDB.
+ * State is stored with structured clone, and uploaded files go to their own object store
+ * so each state write doesn't re-copy the binaries.
+ */
+export function createIdbStorage<S extends WithFiles>(): PersistStorage<S> {
+    // File last written for each contract id, so unchanged uploads are skipped on later writes
+    const savedFiles = new Map<string, File>();
+
+    return {
+        getItem: async (name) => {
+            if (!isAvailable()) return null;
+            const db = await openDatabase();
+
+            const tx = db.transaction([STATE_STORE, FILES_STORE], 'readonly');
+            const value = await promisify<StorageValue<S> | undefined>(tx.objectStore(STATE_STORE).get(name));
+            const fileKeys = await promisify(tx.objectStore(FILES_STORE).getAllKeys());
+            const files = await promisify<File[]>(tx.objectStore(FILES_STORE).getAll());
+
+            if (!value) {
+                const legacy = readLegacyLocalStorage<S>(name);
+                if (legacy) {
+                    await writeState(db, name, legacy);
+                    localStorage.removeItem(name);
+                }
+                return legacy;
+            }
+
+            // Re-attach the original uploads to their contracts
+            const contracts = { ...value.state.contracts };
+            fileKeys.forEach((key, idx) => {
+                const id = String(key);
+                if (contracts[id]) {
+                    contracts[id] = { ...contracts[id], file: files[idx] };
+                    savedFiles.set(id, files[idx]);
+                }
+            });
+
+            return { ...value, state: { ...value.state, contracts } };
+        },
+
+        setItem: async (name, value) => {
+            if (!isAvailable()) return;
+            const db = await openDatabase();
+            await writeState(db, name, value, savedFiles);
+        },
+
+        removeItem: async (name) => {
+            if (!isAvailable()) return;
+            const db = await openDatabase();
+            const tx = db.transaction([STATE_STORE, FILES_STORE], 'readwrite');
+            tx.objectStore(STATE_STORE).delete(name);
+            tx.objectStore(FILES_STORE).clear();
+            await transactionDone(tx);
+        },
+    };
+}
+
+async function writeState<S extends WithFiles>(db: IDBDatabase, name: string, value: StorageValue<S>, savedFiles = new Map<string, File>()) {
+    const tx = db.transaction([STATE_STORE, FILES_STORE], 'readwrite');
+    const filesStore = tx.objectStore(FILES_STORE);
+
+    const contracts: Record<string, unknown> = {};
+    for (const [id, contract] of Object.entries(value.state.contracts ?? {})) {
+        contracts[id] = { ...contract, file: null };
+        if (contract.file instanceof File && savedFiles.get(id) !== contract.file) {
+            filesStore.put(contract.file, id);
+            savedFiles.set(id, contract.file);
+        }
+    }
+
+    // Drop uploads whose contracts were deleted
+    const storedKeys = await promisify(filesStore.getAllKeys());
+    storedKeys
+        .filter(key => !(String(key) in contracts))
+        .forEach(key => {
+            filesStore.delete(key);
+            savedFiles.delete(String(key));
+        });
+
+    tx.objectStore(STATE_STORE).put({ ...value, state: { ...value.state, contracts } }, name);
+    await transactionDone(tx);
+}
+
+/**
+ * How much browser storage the app is using, when the browser can tell us
+ */
+export async function getStorageUsage(): Promise<{ usage: number; quota: number } | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+}
@@ -0,0 +1,131 @@
+/**
+ * Governing-law options offered in the jurisdiction picker
+ */
+export interface Jurisdiction {
+    value: string; // Sent to the backend and stored with the contract
+    name: string;
+    country: string;
+    group: 'United States' | 'United Kingdom' | 'European Union' | 'Other';
+    aliases?: string[];
+}
+
+export const DEFAULT_JURISDICTION = 'United States (General)';
+
+const US_STATES = [
+    'Alabama', 'Alaska', 'Arizona', 'Arkansas', 'California', 'Colorado', 'Connecticut', 'Delaware',
+    'District of Columbia', 'Florida', 'Georgia', 'Hawaii', 'Idaho', 'Illinois', 'Indiana', 'Iowa', 'Kansas',
+    'Kentucky', 'Louisiana', 'Maine', 'Maryland', 'Massachusetts', 'Michigan', 'Minnesota', 'Mississippi',
+    'Missouri', 'Montana', 'Nebraska', 'Nevada', 'New Hampshire', 'New Jersey', 'New Mexico', 'New York',
+    'North Carolina', 'North Dakota', 'Ohio', 'Oklahoma', 'Oregon', 'Pennsylvania', 'Rhode Island',
+    'South Carolina', 'South Dakota', 'Tennessee', 'Texas', 'Utah', 'Vermont', 'Virginia', 'Washington',
+    'West Virginia', 'Wisconsin', 'Wyoming',
+];
+
+const EU_MEMBER_STATES = [
+    'Austria', 'Belgium', 'Bulgaria', 'Croatia', 'Cyprus', 'Czech Republic', 'Denmark', 'Estonia', 'Finland',
+    'France', 'Germany', 'Greece', 'Hungary', 'Ireland', 'Italy', 'Latvia', 'Lithuania', 'Luxembourg', 'Malta',
+    'Netherlands', 'Poland', 'Portugal', 'Romania', 'Slovakia', 'Slovenia', 'Spain', 'Sweden',
+];
+
+const OTHER: Array<Omit<Jurisdiction, 'group'>> = [
+    { value: 'Canada (General)', name: 'Canada (General)', country: 'Canada' },
+    { value: 'Ontario, Canada', name: 'Ontario', country: 'Canada' },
+    { value: 'British Columbia, Canada', name: 'British Columbia', country: 'Canada' },
+    { value: 'Quebec, Canada', name: 'Quebec', country: 'Canada' },
+    { value: 'Australia (General)', name: 'Australia (General)', country: 'Australia' },
+    { value: 'New South Wales, Australia', name: 'New South Wales', country: 'Australia' },
+    { value: 'Victoria, Australia', name: 'Victoria', country: 'Australia' },
+    { value: 'New Zealand', name: 'New Zealand', country: 'New Zealand' },
+    { value: 'Switzerland', name: 'Switzerland', country: 'Switzerland' },
+    { value: 'Norway', name: 'Norway', country: 'Norway' },
+    { value: 'Singapore', name: 'Singapore', country: 'Singapore' },
+    { value: 'Hong Kong', name: 'Hong Kong', country: 'Hong Kong' },
+    { value: 'India', name: 'India', country: 'India' },
+    { value: 'United Arab Emirates', name: 'United Arab Emirates', country: 'United Arab Emirates', aliases: ['UAE', 'Dubai', 'Abu Dhabi'] },
+    { value: 'DIFC, United Arab Emirates', name: 'DIFC (Dubai International Financial Centre)', country: 'United Arab Emirates', aliases: ['DIFC'] },
+    { value: 'Japan', name: 'Japan', country: 'Japan' },
+    { value: 'South Africa', name: 'South Africa', country: 'South Africa' },
+    { value: 'Brazil', name: 'Brazil', country: 'Brazil' },
+    { value: 'Mexico', name: 'Mexico', country: 'Mexico' },
+    { value: 'Israel', name: 'Israel', country: 'Israel' },
+];
+
+export const JURISDICTIONS: Jurisdiction[] = [
+    { value: DEFAULT_JURISDICTION, name: 'United States (General)', country: 'United States', group: 'United States', aliases: ['USA', 'US', 'U.S.', 'Federal'] },
+    ...US_STATES.map((state): Jurisdiction => ({
+        value: `${state}, United States`,
+        name: state,
+        country: 'United States',
+        group: 'United States',
+        aliases: [`State of ${state}`],
+    })),
+    { value: 'United Kingdom (General)', name: 'United Kingdom (General)', country: 'United Kingdom', group: 'United Kingdom', aliases: ['UK', 'U.K.', 'Great Britain'] },
+    { value: 'England and Wales, United Kingdom', name: 'England and Wales', country: 'United Kingdom', group: 'United Kingdom', aliases: ['England', 'Wales'] },
+    { value: 'Scotland, United Kingdom', name: 'Scotland', country: 'United Kingdom', group: 'United Kingdom' },
+    { value: 'Northern Ireland, United Kingdom', name: 'Northern Ireland', country: 'United Kingdom', group: 'United Kingdom' },
+    { value: 'European Union (General)', name: 'European Union (General)', country: 'European Union', group: 'European Union', aliases: ['EU'] },
+    ...EU_MEMBER_STATES.map((country): Jurisdiction => ({
+        value: country,
+        name: country,
+        country,
+        group: 'European Union',
+    })),
+    ...OTHER.map((j): Jurisdiction => ({ ...j, group: 'Other' })),
+];
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9 ]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Filters the picker list by a search string (name, value or alias)
+ */
+export function searchJurisdictions(query: string): Jurisdiction[] {
+    const q = normalize(query);
+    if (!q) return JURISDICTIONS;
+    return JURISDICTIONS.filter(j =>
+        [j.name, j.value, ...(j.aliases ?? [])].some(term => normalize(term).includes(q))
+    );
+}
+
+/**
+ * Resolves free text (e.g. the model's detected jurisdiction) to the closest known entry.
+ * Longer names win so "West Virginia" isn't read as "Virginia".
+ */
+export function findJurisdiction(text: string | undefined | null): Jurisdiction | null {
+    if (!text) return null;
+    const haystack = ` ${normalize(text)} `;
+
+    const exact = JURISDICTIONS.find(j => normalize(j.value) === normalize(text));
+    if (exact) return exact;
+
+    let best: { jurisdiction: Jurisdiction; length: number } | null = null;
+    for (const j of JURISDICTIONS) {
+        for (const term of [j.name, ...(j.aliases ?? [])]) {
+            const needle = normalize(term.replace(/\(General\)/, ''));
+            if (needle && haystack.includes(` ${needle} `) && (!best || needle.length > best.length)) {
+                best = { jurisdiction: j, length: needle.length };
+            }
+        }
+    }
+    return best?.jurisdiction ?? null;
+}
+
+/**
+ * Compares the user's choice with the model-detected jurisdiction.
+ * Returns a warning message on a mismatch, or null when they agree or the detection is unknown.
+ * A general country choice is compatible with any state or nation inside it.
+ */
+export function getJurisdictionMismatch(selected: string, detected: string | undefined | null): string | null {
+    if (!detected || /not specified|unknown|n\/a/i.test(detected)) return null;
+
+    const chosen = findJurisdiction(selected);
+    const found = findJurisdiction(detected);
+    if (!chosen || !found) return null;
+    if (chosen.value === found.value) return null;
+
+    const isGeneral = (j: Jurisdiction) => j.value.includes('(General)');
+    if (chosen.country === found.country && (isGeneral(chosen) || isGeneral(found))) return null;
+    const isEuWide = (j: Jurisdiction) => j.value === 'European Union (General)';
+    if (chosen.group === 'European Union' && found.group === 'European Union' && (isEuWide(chosen) || isEuWide(found))) return null;
+
+    return `You selected ${selected}, but the contract appears to be governed by ${detected}.`;
+}
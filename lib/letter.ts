@@ -0,0 +1,224 @@
+import { jsPDF } from 'jspdf';
+import { ContractVersion } from './contract-store';
+import { findClause, findClauseAt, formatClauseLabel, getClauseText, parseClauses } from './clauses';
+import { listChanges } from './revisions';
+import { createDocx } from './docx';
+import { downloadBlob, withFileSuffix } from './download';
+
+/**
+ * One accepted AI edit, clause by clause, as quoted in a counterparty letter
+ */
+export interface AcceptedEdit {
+    clauseLabel: string; // e.g. "4.2 Liability"; empty when the change isn't inside a numbered clause
+    originalText: string;
+    newText: string;
+    rationale: string; // Summary of the copilot's strategy for the edit; may be empty
+}
+
+// Whole clauses before and after, so the other side sees each change in context
+function describeClauseChanges(before: string, after: string): Omit<AcceptedEdit, 'rationale'>[] {
+    const beforeClauses = parseClauses(before);
+    const afterClauses = parseClauses(after);
+    const seen = new Set<string>();
+    const edits: Omit<AcceptedEdit, 'rationale'>[] = [];
+
+    for (const change of listChanges(before, after)) {
+        const clause = findClauseAt(beforeClauses, change.start);
+        if (!clause) {
+            if (change.removed.trim() || change.added.trim()) {
+                edits.push({ clauseLabel: '', originalText: change.removed.trim(), newText: change.added.trim() });
+            }
+            continue;
+        }
+        if (seen.has(clause.id)) continue;
+        seen.add(clause.id);
+
+        const revised = findClause(afterClauses, clause.id);
+        const originalText = getClauseText(before, clause);
+        const newText = revised ? getClauseText(after, revised) : change.added.trim();
+        if (originalText !== newText) edits.push({ clauseLabel: formatClauseLabel(clause), originalText, newText });
+    }
+    return edits;
+}
+
+/**
+ * Every AI edit the user accepted up to the current version, oldest first.
+ * Only the strategy's summary is kept as the reason: leverage, fallbacks and concessions are for our side only.
+ */
+export function collectAcceptedEdits(versions: ContractVersion[], versionIndex: number): AcceptedEdit[] {
+    const edits: AcceptedEdit[] = [];
+    for (let i = 1; i <= versionIndex && i < versions.length; i++) {
+        const version = versions[i];
+        if (version.source !== 'ai-edit') continue;
+        const rationale = version.strategy?.summary ?? '';
+        edits.push(...describeClauseChanges(versions[i - 1].content, version.content).map(edit => ({ ...edit, rationale })));
+    }
+    return edits;
+}
+
+export type LetterTone = 'cordial' | 'firm' | 'final_offer';
+
+interface TonePreset {
+    label: string;
+    subject: (name: string) => string;
+    opening: (name: string) => string;
+    changesIntro: string;
+    closing: string;
+    signOff: string;
+}
+
+export const LETTER_TONES: Record<LetterTone, TonePreset> = {
+    cordial: {
+        label: 'Cordial',
+        subject: (name) => `Proposed amendments to ${name}`,
+        opening: (name) => `Thank you for sharing ${name}. We have reviewed it carefully and would like to propose a few amendments, which we believe make the agreement work well for both parties.`,
+        changesIntro: 'Our proposed changes are set out below.',
+        closing: 'We look forward to hearing your thoughts and are happy to discuss any of these points on a call.',
+        signOff: 'Kind regards,',
+    },
+    firm: {
+        label: 'Firm',
+        subject: (name) => `Required amendments to ${name}`,
+        opening: (name) => `We have reviewed ${name} and require the following amendments before we can proceed.`,
+        changesIntro: 'The required changes are set out below.',
+        closing: 'Please confirm that these amendments are acceptable so that we can move towards signature.',
+        signOff: 'Regards,',
+    },
+    final_offer: {
+        label: 'Final offer',
+        subject: (name) => `Final position on ${name}`,
+        opening: (name) => `Following our discussions on ${name}, we set out below our final position.`,
+        changesIntro: 'We can sign on the basis of the following amendments.',
+        closing: 'These terms are our final offer. If they are acceptable, please confirm and we will prepare the agreement for signature; otherwise we will need to reconsider whether to proceed.',
+        signOff: 'Regards,',
+    },
+};
+
+export interface LetterDraft {
+    subject: string;
+    body: string;
+}
+
+// "msa-v3.docx" reads better as "msa-v3" in a sentence
+const displayName = (contractName: string) => contractName.replace(/\.(pdf|docx?|txt)$/i, '');
+
+/**
+ * A first draft of the letter from the accepted edits; the user edits it from here.
+ * Placeholders in [brackets] are left for the user to fill in.
+ */
+export function composeLetter(contractName: string, edits: AcceptedEdit[], tone: LetterTone): LetterDraft {
+    const preset = LETTER_TONES[tone];
+    const name = displayName(contractName);
+
+    const changes = edits.length > 0
+        ? edits.map((edit, idx) => {
+            // "Clause 4.2 Payment", but "Article IV" as it stands
+            const heading = !edit.clauseLabel ? 'Amendment' : /^\d/.test(edit.clauseLabel) ? `Clause ${edit.clauseLabel}` : edit.clauseLabel;
+            const lines = [`${idx + 1}. ${heading}`];
+            if (edit.originalText) lines.push(`Current wording: "${edit.originalText}"`);
+            lines.push(edit.newText ? `Proposed wording: "${edit.newText}"` : 'Proposed: delete this wording.');
+            if (edit.rationale) lines.push(`Reason: ${edit.rationale}`);
+            return lines.join('\n');
+        })
+        : ['[Describe the amendments you are proposing]'];
+
+    const body = [
+        'Dear [Name],',
+        preset.opening(name),
+        preset.changesIntro,
+        ...changes,
+        preset.closing,
+        `${preset.signOff}\n[Your name]`,
+    ].join('\n\n');
+
+    return { subject: preset.subject(name), body };
+}
+
+/**
+ * Instructions for the copilot to rewrite a draft in a tone without touching the quoted wording
+ */
+export function buildLetterPolishPrompt(draft: LetterDraft, tone: LetterTone): string {
+    return [
+        `Rewrite the following letter to the counterparty so it reads naturally in a ${LETTER_TONES[tone].label.toLowerCase()} tone.`,
+        'Keep every amendment, keep all quoted contract wording exactly as written, and keep placeholders in [brackets].',
+        'Reply with the letter body only. Do not propose any edits to the contract.',
+        '',
+        draft.body,
+    ].join('\n');
+}
+
+const CRLF = '\r\n';
+
+function toBase64(text: string): string {
+    let binary = '';
+    for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+    return btoa(binary);
+}
+
+// RFC 2047 encoded-word for headers that aren't plain ASCII
+const encodeHeader = (value: string) => (/^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(value)}?=`);
+
+/**
+ * The letter as an unsent email; mail clients open it as a draft with the recipient left blank
+ */
+export function letterToEml({ subject, body }: LetterDraft): string {
+    const encodedBody = toBase64(body.replace(/\r?\n/g, CRLF)).replace(/.{76}/g, `$&${CRLF}`);
+    return [
+        'To: ',
+        `Subject: ${encodeHeader(subject)}`,
+        'X-Unsent: 1',
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        encodedBody,
+    ].join(CRLF);
+}
+
+const MARGIN = 20;
+const LINE_HEIGHT = 6;
+
+export function buildLetterPdf({ subject, body }: LetterDraft): jsPDF {
+    const doc = new jsPDF();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const maxWidth = doc.internal.pageSize.getWidth() - 2 * MARGIN;
+    let y = MARGIN;
+
+    const writeLines = (lines: string[]) => {
+        for (const line of lines) {
+            if (y + LINE_HEIGHT > pageHeight - MARGIN) {
+                doc.addPage();
+                y = MARGIN;
+            }
+            doc.text(line, MARGIN, y);
+            y += LINE_HEIGHT;
+        }
+    };
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    writeLines(doc.splitTextToSize(subject, maxWidth));
+    y += LINE_HEIGHT;
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    writeLines(doc.splitTextToSize(body, maxWidth));
+    return doc;
+}
+
+export type LetterFormat = 'eml' | 'docx' | 'pdf';
+
+/**
+ * Downloads the letter, named after the contract, e.g. "msa-letter.docx"
+ */
+export function exportLetter(draft: LetterDraft, contractName: string, format: LetterFormat) {
+    const filename = withFileSuffix(contractName, 'letter', format);
+    if (format === 'pdf') {
+        buildLetterPdf(draft).save(filename);
+    } else if (format === 'docx') {
+        const paragraphs = [{ text: draft.subject, bold: true }, { text: '' }, ...draft.body.split('\n').map(text => ({ text }))];
+        downloadBlob(createDocx(paragraphs), filename);
+    } else {
+        downloadBlob(new Blob([letterToEml(draft)], { type: 'message/rfc822' }), filename);
+    }
+}
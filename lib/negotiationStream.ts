@@ -0,0 +1,137 @@
+import { negotiateChat, NegotiationPayload, RequestOptions } from './api';
+import { addBreadcrumb, ApiError, isAbortError } from './errorHandler';
+import { NegotiationStrategy, parseStrategy } from './strategy';
+
+/**
+ * Events emitted by the /negotiate/chat/ NDJSON stream
+ */
+export type NegotiationEvent =
+    | { type: 'strategy'; strategy: NegotiationStrategy }
+    | { type: 'text_delta'; content: string }
+    | { type: 'edit_start'; target?: string } // target: the clause being replaced in clause-scoped mode
+    | { type: 'edit_delta'; content: string }
+    | { type: 'done' }
+    | { type: 'error'; source: 'server' | 'parse'; message: string; raw?: string };
+
+/**
+ * Parses a single NDJSON line into a typed event.
+ * Returns null for blank lines, empty strategies and event types the client doesn't know about.
+ */
+export function parseNegotiationEvent(line: string): NegotiationEvent | null {
+    const trimmed = line.trim();
+    if (!trimmed) return null;
+
+    let data: { type?: unknown; content?: unknown; message?: unknown; detail?: unknown; target?: unknown };
+    try {
+        data = JSON.parse(trimmed);
+    } catch {
+        return { type: 'error', source: 'parse', message: 'Malformed stream line', raw: trimmed };
+    }
+
+    if (!data || typeof data !== 'object') {
+        return { type: 'error', source: 'parse', message: 'Unexpected stream payload', raw: trimmed };
+    }
+
+    const content = typeof data.content === 'string' ? data.content : '';
+
+    switch (data.type) {
+        case 'strategy': {
+            const strategy = parseStrategy(data.content);
+            return strategy && { type: 'strategy', strategy };
+        }
+        case 'text_delta':
+            return { type: 'text_delta', content };
+        case 'edit_start':
+            return typeof data.target === 'string' && data.target ? { type: 'edit_start', target: data.target } : { type: 'edit_start' };
+        case 'edit_delta':
+            return { type: 'edit_delta', content };
+        case 'done':
+            return { type: 'done' };
+        case 'error':
+            return {
+                type: 'error',
+                source: 'server',
+                message: String(data.message ?? data.detail ?? data.content ?? 'Negotiation stream error'),
+            };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Reads an NDJSON response body and yields typed events.
+ * Partial lines are buffered across chunks so a JSON object split by the network is parsed once it's complete.
+ */
+export async function* readNegotiationStream(body: ReadableStream<Uint8Array>): AsyncGenerator<NegotiationEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finished = false;
+
+    try {
+        while (true) {
+            let chunk: ReadableStreamReadResult<Uint8Array>;
+            try {
+                chunk = await reader.read();
+            } catch (error) {
+                if (isAbortError(error)) throw error;
+                // The connection dropped mid-reply
+                throw new ApiError('The connection dropped while the reply was streaming', undefined, { code: 'stream_interrupted' });
+            }
+            const { done, value } = chunk;
+            if (done) {
+                finished = true;
+                break;
+            }
+
+            buffer += decoder.decode(value, { stream: true });
+
+            let newlineIndex = buffer.indexOf('\n');
+            while (newlineIndex !== -1) {
+                const line = buffer.slice(0, newlineIndex);
+                buffer = buffer.slice(newlineIndex + 1);
+
+                const event = parseNegotiationEvent(line);
+                if (event) yield event;
+
+                newlineIndex = buffer.indexOf('\n');
+            }
+        }
+
+        // Flush whatever is left once the stream closes (last line may lack a trailing newline)
+        buffer += decoder.decode();
+        const event = parseNegotiationEvent(buffer);
+        if (event) yield event;
+    } finally {
+        // Consumer stopped early: cancel so the connection isn't left open
+        if (!finished) {
+            reader.cancel().catch(() => { });
+        }
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Starts a negotiation chat and yields its events as they stream in.
+ * Leaves stream breadcrumbs for error reports: each non-delta event, and how many deltas arrived before the end.
+ * Error breadcrumbs carry the message length only, as a server message can quote the contract.
+ */
+export async function* streamNegotiation(payload: NegotiationPayload, options: RequestOptions = {}): AsyncGenerator<NegotiationEvent> {
+    const response = await negotiateChat(payload, options);
+    if (!response.body) {
+        throw new ApiError('The server sent an empty reply', 500);
+    }
+
+    let deltas = 0;
+    try {
+        for await (const event of readNegotiationStream(response.body)) {
+            if (event.type === 'text_delta' || event.type === 'edit_delta') deltas++;
+            else addBreadcrumb('stream', event.type, event.type === 'error' ? { source: event.source, messageLength: event.message.length } : undefined);
+            yield event;
+        }
+        addBreadcrumb('stream', 'closed', { deltas });
+    } catch (error) {
+        addBreadcrumb('stream', isAbortError(error) ? 'cancelled' : 'interrupted', { deltas });
+        throw error;
+    }
+}
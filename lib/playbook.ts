@@ -0,0 +1,302 @@
+import { useSyncExternalStore } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { ApiError } from './errorHandler';
+import { Clause, findClause, flattenClauses, formatClauseLabel, getClauseText, parseClauses } from './clauses';
+
+/**
+ * The team's standard position for one type of clause
+ */
+export interface PlaybookRule {
+    id: string;
+    clauseType: string; // e.g. "Limitation of liability"
+    // Identify the clause: matched against clause headings, or clause text when no heading matches
+    keywords: string[];
+    preferred: string;
+    fallbacks: string[]; // Acceptable compromises, most preferred first
+    walkAway: string;
+    // Deviation checks on a matching clause: it should mention one of the required terms and none of the prohibited ones.
+    // A clause mentioning a fallback term instead of a required one is at an accepted fallback, not a deviation.
+    requiredTerms: string[];
+    fallbackTerms: string[];
+    prohibitedTerms: string[];
+}
+
+/**
+ * A playbook entry as sent with a negotiation request
+ */
+export interface PlaybookPosition {
+    clause_type: string;
+    preferred: string;
+    fallbacks: string[];
+    walk_away: string;
+}
+
+const createRuleId = () => `rule-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const DEFAULT_PLAYBOOK: PlaybookRule[] = [
+    {
+        id: 'rule-liability',
+        clauseType: 'Limitation of liability',
+        keywords: ['limitation of liability', 'liability'],
+        preferred: 'Each party’s total liability is capped at the fees paid in the 12 months before the claim.',
+        fallbacks: ['Cap at 24 months of fees', 'Cap at 12 months of fees with carve-outs for confidentiality and data protection only'],
+        walkAway: 'Unlimited liability, or a cap that applies to one party only.',
+        requiredTerms: ['12 months', 'twelve (12) months', 'twelve months'],
+        fallbackTerms: ['24 months', 'twenty-four (24) months', 'twenty-four months'],
+        prohibitedTerms: ['unlimited liability', 'without limitation'],
+    },
+    {
+        id: 'rule-indemnity',
+        clauseType: 'Indemnity',
+        keywords: ['indemnit', 'indemnif'],
+        preferred: 'Mutual indemnities only, each limited to third-party claims caused by the indemnifying party.',
+        fallbacks: ['One-way indemnity limited to IP infringement claims'],
+        walkAway: 'A broad one-way indemnity covering any losses.',
+        requiredTerms: ['mutual', 'each party', 'either party'],
+        fallbackTerms: ['infringement'],
+        prohibitedTerms: ['any and all losses', 'sole discretion'],
+    },
+    {
+        id: 'rule-payment',
+        clauseType: 'Payment terms',
+        keywords: ['payment', 'invoice', 'fees'],
+        preferred: 'Invoices are payable within 30 days of receipt (net 30).',
+        fallbacks: ['Net 45'],
+        walkAway: 'Payment in advance, or terms shorter than 15 days.',
+        requiredTerms: ['30 days', 'thirty (30) days', 'thirty days', 'net 30'],
+        fallbackTerms: ['45 days', 'forty-five (45) days', 'forty-five days', 'net 45'],
+        prohibitedTerms: ['in advance', 'upon receipt'],
+    },
+];
+
+interface PlaybookState {
+    rules: PlaybookRule[];
+    addRule: () => string;
+    updateRule: (id: string, update: Partial<Omit<PlaybookRule, 'id'>>) => void;
+    removeRule: (id: string) => void;
+    replaceRules: (rules: PlaybookRule[]) => void;
+    resetToDefaults: () => void;
+}
+
+/**
+ * The team playbook, kept in this browser; teams share it by exporting and importing JSON
+ */
+export const usePlaybookStore = create<PlaybookState>()(
+    persist(
+        (set) => ({
+            rules: DEFAULT_PLAYBOOK,
+
+            addRule: () => {
+                const id = createRuleId();
+                set((state) => ({
+                    rules: [...state.rules, {
+                        id,
+                        clauseType: 'New clause type',
+                        keywords: [],
+                        preferred: '',
+                        fallbacks: [],
+                        walkAway: '',
+                        requiredTerms: [],
+                        fallbackTerms: [],
+                        prohibitedTerms: [],
+                    }],
+                }));
+                return id;
+            },
+
+            updateRule: (id, update) => {
+                set((state) => ({ rules: state.rules.map(rule => rule.id === id ? { ...rule, ...update } : rule) }));
+            },
+
+            removeRule: (id) => {
+                set((state) => ({ rules: state.rules.filter(rule => rule.id !== id) }));
+            },
+
+            replaceRules: (rules) => set({ rules }),
+
+            resetToDefaults: () => set({ rules: DEFAULT_PLAYBOOK }),
+        }),
+        {
+            name: 'playbook-storage',
+            // v1: rules, v2: fallback terms
+            version: 2,
+            migrate: (persisted, version) => {
+                let state = persisted as Pick<PlaybookState, 'rules'>;
+                // v2 adds fallback terms; rules kept from the defaults get the default ones
+                if (version < 2) {
+                    state = {
+                        ...state,
+                        rules: state.rules.map(rule => ({
+                            ...rule,
+                            fallbackTerms: DEFAULT_PLAYBOOK.find(d => d.id === rule.id)?.fallbackTerms ?? [],
+                        })),
+                    };
+                }
+                return state as PlaybookState;
+            },
+        }
+    )
+);
+
+export const usePlaybookHydrated = () =>
+    useSyncExternalStore(
+        (onChange) => usePlaybookStore.persist.onFinishHydration(onChange),
+        () => usePlaybookStore.persist.hasHydrated(),
+        () => false
+    );
+
+const toStringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim()) : [];
+
+const toText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Validates an imported playbook file; throws a 400 ApiError if it isn't one
+ */
+export function parsePlaybook(raw: unknown): PlaybookRule[] {
+    const list = Array.isArray(raw) ? raw : (raw as { rules?: unknown } | null)?.rules;
+    if (!Array.isArray(list)) throw new ApiError('This file is not a playbook export.', 400);
+
+    const rules = list.flatMap((item): PlaybookRule[] => {
+        if (!item || typeof item !== 'object') return [];
+        const entry = item as Record<string, unknown>;
+        const clauseType = toText(entry.clauseType);
+        if (!clauseType) return [];
+        return [{
+            id: toText(entry.id) || createRuleId(),
+            clauseType,
+            keywords: toStringList(entry.keywords),
+            preferred: toText(entry.preferred),
+            fallbacks: toStringList(entry.fallbacks),
+            walkAway: toText(entry.walkAway),
+            requiredTerms: toStringList(entry.requiredTerms),
+            fallbackTerms: toStringList(entry.fallbackTerms),
+            prohibitedTerms: toStringList(entry.prohibitedTerms),
+        }];
+    });
+    if (rules.length === 0) throw new ApiError('The playbook file has no rules.', 400);
+    return rules;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches start at a word boundary, where hyphens join words: "130 days" doesn't mention "30 days",
+// nor "non-exclusive" "exclusive". Whole words also end at one; keywords may be stems, e.g. "indemnit".
+const wordPattern = (word: string, wholeWord: boolean) =>
+    new RegExp(`(^|[^\\w-])${escapeRegExp(word.trim())}${wholeWord ? '(?![\\w-])' : ''}`, 'gi');
+
+// A negation shortly before a term, in the same sentence: "shall not be payable in advance".
+// "No later than" and similar limits state the term rather than negate it.
+const NEGATED = /\b(?:not|no|never|neither|nor|cannot|\w+n['’]t)\b(?!\s+(?:later|earlier|more|less|fewer)\s+than\b)(?:\s+[^\s.;:]+){0,2}\s+$/i;
+
+const mentionsKeyword = (text: string, keywords: string[]) =>
+    keywords.filter(keyword => keyword.trim() && wordPattern(keyword, false).test(text));
+
+const mentionsTerm = (text: string, terms: string[]) =>
+    terms.filter(term => term.trim() && [...text.matchAll(wordPattern(term, true))].some(match => {
+        const start = match.index + match[1].length;
+        return !NEGATED.test(text.slice(Math.max(0, start - 80), start));
+    }));
+
+/**
+ * The rule for a clause: the first whose keywords appear in its heading, or in an ancestor's
+ */
+function ruleForClause(rules: PlaybookRule[], clauses: Clause[], clause: Clause): PlaybookRule | null {
+    for (let current: Clause | null = clause; current; current = current.parentId ? findClause(clauses, current.parentId) : null) {
+        const rule = rules.find(r => current!.heading && mentionsKeyword(current!.heading, r.keywords).length > 0);
+        if (rule) return rule;
+    }
+    return null;
+}
+
+/**
+ * Playbook positions for the clauses being negotiated, by each flag's clause or, failing that, its text
+ */
+export function playbookForClauses(
+    rules: PlaybookRule[],
+    text: string,
+    items: { sectionId: string | null; text: string; original_text: string }[]
+): PlaybookPosition[] {
+    const clauses = parseClauses(text);
+    const matched = new Map<string, PlaybookRule>();
+    for (const item of items) {
+        const clause = item.sectionId ? findClause(clauses, item.sectionId) : null;
+        const rule = (clause && ruleForClause(rules, clauses, clause))
+            ?? rules.find(r => mentionsKeyword(`${item.original_text} ${item.text}`, r.keywords).length > 0);
+        if (rule) matched.set(rule.id, rule);
+    }
+    return [...matched.values()].map(rule => ({
+        clause_type: rule.clauseType,
+        preferred: rule.preferred,
+        fallbacks: rule.fallbacks,
+        walk_away: rule.walkAway,
+    }));
+}
+
+/**
+ * A clause that doesn't meet the team's preferred position: a deviation, or at one of the accepted fallbacks
+ */
+export interface PlaybookDeviation {
+    rule: PlaybookRule;
+    clauseId: string;
+    clauseLabel: string;
+    reasons: string[];
+}
+
+export interface PlaybookCheck {
+    deviations: PlaybookDeviation[];
+    fallbacks: PlaybookDeviation[]; // Within the playbook, but not at the preferred position
+
+    matchedClauses: number;
+    unmatchedRules: PlaybookRule[]; // No clause of this type was found
+}
+
+/**
+ * Checks the contract against the playbook. Clauses are matched by heading; a rule no heading matches
+ * falls back to the innermost unclaimed clauses whose text mentions one of its keywords.
+ */
+export function checkPlaybook(rules: PlaybookRule[], contractText: string, clauses: Clause[]): PlaybookCheck {
+    const all = flattenClauses(clauses);
+    const deviations: PlaybookDeviation[] = [];
+    const fallbacks: PlaybookDeviation[] = [];
+    const unmatchedRules: PlaybookRule[] = [];
+    let matchedClauses = 0;
+
+    for (const rule of rules) {
+        if (rule.keywords.length === 0) continue;
+        // Outermost clauses only: a subclause is checked as part of its parent's text
+        let matches = all.filter(clause => clause.heading && mentionsKeyword(clause.heading, rule.keywords).length > 0
+            && ruleForClause(rules, clauses, clause) === rule
+            && !(clause.parentId && ruleForClause(rules, clauses, findClause(clauses, clause.parentId)!) === rule));
+        // Clauses whose heading names another rule belong to that rule, whatever they mention
+        if (matches.length === 0) {
+            matches = all.filter(clause => clause.children.length === 0
+                && ruleForClause(rules, clauses, clause) === null
+                && mentionsKeyword(getClauseText(contractText, clause), rule.keywords).length > 0);
+        }
+        if (matches.length === 0) {
+            unmatchedRules.push(rule);
+            continue;
+        }
+        matchedClauses += matches.length;
+
+        for (const clause of matches) {
+            const text = getClauseText(contractText, clause);
+            const finding = { rule, clauseId: clause.id, clauseLabel: formatClauseLabel(clause) || 'Untitled clause' };
+            const reasons = mentionsTerm(text, rule.prohibitedTerms).map(term => `Contains “${term}”`);
+            const missesPreferred = rule.requiredTerms.length > 0 && mentionsTerm(text, rule.requiredTerms).length === 0;
+            const fallbackTerms = missesPreferred ? mentionsTerm(text, rule.fallbackTerms) : [];
+
+            if (missesPreferred && fallbackTerms.length === 0) {
+                reasons.push(`Doesn’t mention ${rule.requiredTerms.map(term => `“${term}”`).join(' or ')}`);
+            }
+            if (reasons.length > 0) {
+                deviations.push({ ...finding, reasons });
+            } else if (fallbackTerms.length > 0) {
+                fallbacks.push({ ...finding, reasons: fallbackTerms.map(term => `Accepted fallback: mentions “${term}”`) });
+            }
+        }
+    }
+    return { deviations, fallbacks, matchedClauses, unmatchedRules };
+}
@@ -0,0 +1,192 @@
+import { jsPDF } from 'jspdf';
+import type { AnalysisResult } from './api';
+import type { FlagExplanation } from './contract-store';
+import { withContentIds } from './flags';
+
+type Severity = 'red' | 'yellow' | 'green';
+
+const SEVERITY_SECTIONS: Array<{ type: Severity; title: string; color: [number, number, number] }> = [
+    { type: 'red', title: 'Red Flags — High Risk', color: [220, 38, 38] },
+    { type: 'yellow', title: 'Yellow Flags — Moderate Risk', color: [202, 138, 4] },
+    { type: 'green', title: 'Green Flags — Favourable Terms', color: [22, 163, 74] },
+];
+
+const MARGIN = 20;
+const LINE_HEIGHT = 6;
+
+/**
+ * Risk label shown next to the health score, matching the dashboard thresholds
+ */
+function getRiskLabel(score: number): string {
+    if (score >= 80) return 'Low Risk';
+    if (score >= 50) return 'Moderate Risk';
+    return 'High Risk';
+}
+
+/**
+ * Builds a multi-page PDF report of an analysis.
+ * `explanations` is keyed by flag ID, as cached in the workspace.
+ */
+export function buildAnalysisPdf(data: AnalysisResult, explanations: Record<string, FlagExplanation> = {}): jsPDF {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const maxWidth = pageWidth - 2 * MARGIN;
+    let y = MARGIN;
+
+    const ensureSpace = (height: number) => {
+        if (y + height > pageHeight - MARGIN) {
+            doc.addPage();
+            y = MARGIN;
+        }
+    };
+
+    const writeParagraph = (text: string, options: { size?: number; style?: string; indent?: number; color?: [number, number, number] } = {}) => {
+        const { size = 11, style = 'normal', indent = 0, color = [30, 41, 59] } = options;
+        doc.setFontSize(size);
+        doc.setFont('helvetica', style);
+        doc.setTextColor(...color);
+
+        const lines: string[] = doc.splitTextToSize(text, maxWidth - indent);
+        for (const line of lines) {
+            ensureSpace(LINE_HEIGHT);
+            doc.text(line, MARGIN + indent, y);
+            y += LINE_HEIGHT;
+        }
+    };
+
+    const writeHeading = (text: string, color: [number, number, number] = [15, 23, 42]) => {
+        ensureSpace(LINE_HEIGHT * 3);
+        y += 4;
+        writeParagraph(text, { size: 15, style: 'bold', color });
+        doc.setDrawColor(...color);
+        doc.line(MARGIN, y - 3, pageWidth - MARGIN, y - 3);
+        y += 3;
+    };
+
+    // --- Cover ---
+    const score = data.total_health_score;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(26);
+    doc.setTextColor(15, 23, 42);
+    doc.text('Contract Analysis Report', MARGIN, 60);
+
+    doc.setFontSize(18);
+    doc.setTextColor(180, 140, 30);
+    doc.text(doc.splitTextToSize(data.contract_type || 'Contract', maxWidth), MARGIN, 78);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(12);
+    doc.setTextColor(71, 85, 105);
+    doc.text(`Jurisdiction: ${data.jurisdiction || 'Not Specified'}`, MARGIN, 100);
+    doc.text(`Generated: ${new Date().toLocaleDateString()}`, MARGIN, 108);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(48);
+    const scoreColor: [number, number, number] = score >= 80 ? [22, 163, 74] : score >= 50 ? [202, 138, 4] : [220, 38, 38];
+    doc.setTextColor(...scoreColor);
+    doc.text(`${score}`, MARGIN, 145);
+    doc.setFontSize(14);
+    doc.text(`/ 100  Health Score — ${getRiskLabel(score)}`, MARGIN + 32, 145);
+
+    const counts = SEVERITY_SECTIONS.map(({ type }) => data[`${type}_flags`].length);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.setTextColor(71, 85, 105);
+    doc.text(`${counts[0]} red · ${counts[1]} yellow · ${counts[2]} green flags`, MARGIN, 158);
+
+    doc.setFontSize(9);
+    doc.text('Prepared with LegalSay. This report is AI-generated and is not legal advice.', MARGIN, pageHeight - MARGIN);
+
+    // --- Summary ---
+    doc.addPage();
+    y = MARGIN;
+    writeHeading('Plain-English Summary');
+    writeParagraph(data.plain_english_summary || 'No summary available.');
+
+    // --- Key Details ---
+    const details = data.key_details;
+    if (details.length > 0) {
+        writeHeading('Key Details');
+        const labelWidth = maxWidth * 0.35;
+        const valueWidth = maxWidth - labelWidth;
+
+        doc.setFontSize(10);
+        for (const detail of details) {
+            doc.setFont('helvetica', 'bold');
+            const labelLines: string[] = doc.splitTextToSize(detail.label, labelWidth - 4);
+            doc.setFont('helvetica', 'normal');
+            const valueLines: string[] = doc.splitTextToSize(detail.value, valueWidth - 4);
+            const rowHeight = Math.max(labelLines.length, valueLines.length) * 5 + 4;
+
+            ensureSpace(rowHeight);
+            doc.setDrawColor(203, 213, 225);
+            doc.setFillColor(241, 245, 249);
+            doc.rect(MARGIN, y - 4, labelWidth, rowHeight, 'FD');
+            doc.rect(MARGIN + labelWidth, y - 4, valueWidth, rowHeight);
+
+            doc.setTextColor(15, 23, 42);
+            doc.setFont('helvetica', 'bold');
+            doc.text(labelLines, MARGIN + 2, y + 1);
+            doc.setFont('helvetica', 'normal');
+            doc.text(valueLines, MARGIN + labelWidth + 2, y + 1);
+            y += rowHeight;
+        }
+        y += 4;
+    }
+
+    // --- Flags grouped by severity ---
+    for (const section of SEVERITY_SECTIONS) {
+        const flags = withContentIds(data[`${section.type}_flags`].map(flag => ({ ...flag, type: section.type })));
+        if (flags.length === 0) continue;
+
+        writeHeading(`${section.title} (${flags.length})`, section.color);
+
+        flags.forEach((flag, idx) => {
+            const explanation = explanations[flag.id];
+
+            ensureSpace(LINE_HEIGHT * 2);
+            writeParagraph(`${idx + 1}. ${flag.analysis}`, { style: 'bold' });
+
+            if (flag.original_text && flag.original_text !== 'N/A') {
+                const quoteTop = y - 4;
+                writeParagraph(`“${flag.original_text}”`, { size: 10, style: 'italic', indent: 6, color: [71, 85, 105] });
+                doc.setDrawColor(...section.color);
+                doc.line(MARGIN + 2, Math.max(quoteTop, MARGIN - 4), MARGIN + 2, y - 4);
+            }
+
+            if (explanation) {
+                y += 1;
+                writeParagraph('Risk explanation', { size: 9, style: 'bold', indent: 6, color: [180, 140, 30] });
+                writeParagraph(explanation.text, { size: 10, indent: 6 });
+                explanation.followUps.forEach(followUp => {
+                    writeParagraph(followUp.question, { size: 10, style: 'bold', indent: 6 });
+                    writeParagraph(followUp.answer, { size: 10, indent: 6 });
+                });
+            }
+
+            y += 4;
+        });
+    }
+
+    // --- Page numbers ---
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 2; page <= pageCount; page++) {
+        doc.setPage(page);
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(9);
+        doc.setTextColor(148, 163, 184);
+        doc.text(`${data.contract_type} — Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - 10, { align: 'right' });
+    }
+
+    return doc;
+}
+
+/**
+ * Builds the analysis report and downloads it
+ */
+export function exportAnalysisPdf(data: AnalysisResult, explanations: Record<string, FlagExplanation> = {}) {
+    const doc = buildAnalysisPdf(data, explanations);
+    const slug = (data.contract_type || 'contract').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    doc.save(`${slug || 'contract'}-analysis-report.pdf`);
+}
@@ -0,0 +1,232 @@
+import { addBreadcrumb, ApiError, isAbortError } from './errorHandler';
+import { isConnectionDown, reportRequestResult, waitForConnection } from './connectivity';
+
+// API timeout in milliseconds
+export const API_TIMEOUT = 60000; // 60 seconds for AI processing
+
+/**
+ * Fetch with timeout support.
+ * An external signal cancels the request; cancellation rethrows the AbortError so callers can tell it apart from a timeout.
+ */
+export async function fetchWithTimeout(url: string, options: RequestInit, timeout: number = API_TIMEOUT): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const externalSignal = options.signal;
+
+    const abortFromCaller = () => controller.abort();
+    if (externalSignal) {
+        if (externalSignal.aborted) controller.abort();
+        externalSignal.addEventListener('abort', abortFromCaller, { once: true });
+    }
+
+    try {
+        const response = await fetch(url, {
+            ...options,
+            signal: controller.signal,
+        });
+        clearTimeout(timeoutId);
+        return response;
+    } catch (error) {
+        clearTimeout(timeoutId);
+        externalSignal?.removeEventListener('abort', abortFromCaller);
+        if (error instanceof Error && error.name === 'AbortError') {
+            if (externalSignal?.aborted) throw error;
+            throw new ApiError('Request timed out. The analysis is taking longer than expected. Please try again.', 408);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Upload progress callback: fraction of the request body sent, from 0 to 1
+ */
+export type UploadProgressHandler = (fraction: number) => void;
+
+/**
+ * Headers from XMLHttpRequest.getAllResponseHeaders(): one "name: value" per CRLF-separated line
+ */
+function parseResponseHeaders(raw: string): Headers {
+    const headers = new Headers();
+    for (const line of raw.trim().split(/[\r\n]+/)) {
+        const separator = line.indexOf(':');
+        if (separator > 0) headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    }
+    return headers;
+}
+
+/**
+ * POST a form with upload progress, which fetch can't report.
+ * Mirrors fetchWithTimeout: resolves to a Response, rethrows caller aborts and turns timeouts into a 408.
+ */
+export function postFormWithProgress(url: string, body: FormData, options: { signal?: AbortSignal; onUploadProgress?: UploadProgressHandler }, timeout: number = API_TIMEOUT): Promise<Response> {
+    return new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        const externalSignal = options.signal;
+        const abortFromCaller = () => xhr.abort();
+        const cleanup = () => externalSignal?.removeEventListener('abort', abortFromCaller);
+
+        if (externalSignal?.aborted) {
+            reject(new DOMException('The operation was aborted.', 'AbortError'));
+            return;
+        }
+        externalSignal?.addEventListener('abort', abortFromCaller, { once: true });
+
+        xhr.open('POST', url);
+        xhr.timeout = timeout;
+        xhr.upload.onprogress = (event) => {
+            if (event.lengthComputable) options.onUploadProgress?.(event.loaded / event.total);
+        };
+        xhr.upload.onload = () => options.onUploadProgress?.(1);
+        xhr.onload = () => {
+            cleanup();
+            // Keep the headers so retries can honour Retry-After
+            resolve(new Response(xhr.responseText, {
+                status: xhr.status,
+                statusText: xhr.statusText,
+                headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+            }));
+        };
+        xhr.onabort = () => {
+            cleanup();
+            reject(new DOMException('The operation was aborted.', 'AbortError'));
+        };
+        xhr.ontimeout = () => {
+            cleanup();
+            reject(new ApiError('Request timed out. The analysis is taking longer than expected. Please try again.', 408));
+        };
+        xhr.onerror = () => {
+            cleanup();
+            reject(new TypeError('Failed to fetch'));
+        };
+
+        xhr.send(body);
+    });
+}
+
+/**
+ * How a call is retried. Only idempotent calls should opt in.
+ */
+export interface RetryPolicy {
+    retries: number; // Extra attempts after the first
+    baseDelay: number; // Backoff before the first retry in ms, doubling each time
+    maxDelay: number;
+    maxRetryAfter: number; // Longest Retry-After worth waiting for; longer ones fail straight away
+}
+
+export const DEFAULT_RETRY: RetryPolicy = {
+    retries: 3,
+    baseDelay: 500,
+    maxDelay: 8000,
+    maxRetryAfter: 30000,
+};
+
+export interface RetryInfo {
+    attempt: number; // The retry about to be made, from 1
+    delay: number; // Wait before it, in ms
+    reason: string; // e.g. "HTTP 502", "network error"
+}
+
+export interface SendOptions {
+    label?: string; // Names the call in error report breadcrumbs, e.g. "POST /analyze_contract/"
+    signal?: AbortSignal;
+    retry?: Partial<RetryPolicy> | false; // false: a single attempt
+    // Wait for the connection instead of failing while offline (analysis requests)
+    queueWhileOffline?: boolean;
+    onRetry?: (info: RetryInfo) => void;
+    onQueued?: () => void; // Called each time the request starts waiting for the connection
+}
+
+const isNetworkError = (error: unknown) =>
+    error instanceof TypeError || (error instanceof Error && /Failed to fetch|NetworkError|Load failed/.test(error.message));
+
+// 501 means the endpoint doesn't exist, so retrying won't help
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || (status >= 500 && status !== 501);
+
+/**
+ * Retry-After as a delay in ms; the header is either seconds or an HTTP date
+ */
+export function parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// "Full jitter": a random wait up to the exponential cap, so clients don't retry in lockstep
+const backoffDelay = (attempt: number, policy: RetryPolicy) =>
+    Math.round(Math.random() * Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1)));
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('The operation was aborted.', 'AbortError'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        if (signal?.aborted) onAbort();
+        else signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Runs `send` (one attempt: fetchWithTimeout or postFormWithProgress) with retries.
+ * Retries network errors, timeouts, 408, 429 and 5xx with jittered exponential backoff,
+ * honouring Retry-After on 429/503. Returns the last response when retries run out,
+ * so callers keep their own status handling.
+ */
+export async function sendWithRetry(send: () => Promise<Response>, options: SendOptions = {}): Promise<Response> {
+    const policy: RetryPolicy = options.retry === false
+        ? { ...DEFAULT_RETRY, retries: 0 }
+        : { ...DEFAULT_RETRY, ...options.retry };
+    let attempt = 0;
+
+    for (;;) {
+        if (options.queueWhileOffline && isConnectionDown()) {
+            options.onQueued?.();
+            await waitForConnection(options.signal);
+        }
+
+        let reason: string;
+        let retryAfter: number | null = null;
+        const startedAt = Date.now();
+        const breadcrumb = (status: number | string) => addBreadcrumb('api', options.label ?? 'request', {
+            status,
+            duration: Date.now() - startedAt,
+            attempt: attempt + 1,
+        });
+        try {
+            const response = await send();
+            breadcrumb(response.status);
+            reportRequestResult(true);
+            if (!isRetryableStatus(response.status) || attempt >= policy.retries) return response;
+
+            if (response.status === 429 || response.status === 503) {
+                retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+                if (retryAfter !== null && retryAfter > policy.maxRetryAfter) return response;
+            }
+            reason = `HTTP ${response.status}`;
+        } catch (error) {
+            const network = isNetworkError(error);
+            const timedOut = error instanceof ApiError && error.statusCode === 408;
+            breadcrumb(isAbortError(error) ? 'aborted' : network ? 'network error' : timedOut ? 'timeout' : 'failed');
+            if (isAbortError(error)) throw error;
+
+            if (!network && !timedOut) throw error;
+            if (network) reportRequestResult(false);
+
+            // Offline: wait for the connection at the top of the loop rather than using up retries
+            if (network && options.queueWhileOffline && isConnectionDown()) continue;
+            if (attempt >= policy.retries) throw error;
+            reason = network ? 'network error' : 'timeout';
+        }
+
+        attempt++;
+        const delay = retryAfter ?? backoffDelay(attempt, policy);
+        options.onRetry?.({ attempt, delay, reason });
+        await sleep(delay, options.signal);
+    }
+}
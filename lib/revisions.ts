@@ -0,0 +1,139 @@
+import { diffWordsWithSpace } from 'diff';
+
+/**
+ * One word-level change between the current text and a proposed revision
+ */
+export interface RevisionHunk {
+    id: number;
+    removed: string;
+    added: string;
+}
+
+export type RevisionSegment =
+    | { kind: 'equal'; value: string }
+    | { kind: 'change'; hunk: RevisionHunk };
+
+export type HunkDecision = 'accepted' | 'rejected';
+
+/**
+ * Splits a proposed revision into unchanged runs and reviewable hunks.
+ * Adjacent removals and additions are merged so a replaced phrase is a single hunk.
+ * Whitespace is diffed too, so merged paragraphs or new line breaks are hunks the user can reject,
+ * and unchanged runs keep the base text's layout.
+ */
+export function computeRevisionSegments(baseText: string, proposedText: string): RevisionSegment[] {
+    const segments: RevisionSegment[] = [];
+    let nextId = 0;
+    const parts = diffWordsWithSpace(baseText, proposedText);
+
+    for (const [idx, part] of parts.entries()) {
+        if (!part.added && !part.removed) {
+            // A single space between two changed words stays inside one hunk ("a b" -> "c d")
+            const last = segments[segments.length - 1];
+            const next = parts[idx + 1];
+            if (last?.kind === 'change' && (next?.added || next?.removed) && /^[ \t]+$/.test(part.value)) {
+                last.hunk.removed += part.value;
+                last.hunk.added += part.value;
+            } else {
+                segments.push({ kind: 'equal', value: part.value });
+            }
+            continue;
+        }
+
+        const last = segments[segments.length - 1];
+        const hunk: RevisionHunk = last?.kind === 'change'
+            ? last.hunk
+            : { id: nextId++, removed: '', added: '' };
+
+        if (part.added) hunk.added += part.value;
+        if (part.removed) hunk.removed += part.value;
+
+        if (last?.kind !== 'change') {
+            segments.push({ kind: 'change', hunk });
+        }
+    }
+
+    return segments;
+}
+
+/**
+ * Lists the hunks of a revision in document order
+ */
+export function getRevisionHunks(segments: RevisionSegment[]): RevisionHunk[] {
+    return segments.flatMap(segment => segment.kind === 'change' ? [segment.hunk] : []);
+}
+
+/**
+ * Rebuilds the document from reviewed hunks.
+ * Accepted hunks take the proposed wording; rejected and undecided hunks keep the original.
+ */
+export function applyHunkDecisions(segments: RevisionSegment[], decisions: Record<number, HunkDecision>): string {
+    return segments
+        .map(segment => {
+            if (segment.kind === 'equal') return segment.value;
+            return decisions[segment.hunk.id] === 'accepted' ? segment.hunk.added : segment.hunk.removed;
+        })
+        .join('');
+}
+
+/**
+ * A change located in the base text: `removed` is base[start, end), replaced by `added`
+ */
+export interface TextChange {
+    start: number;
+    end: number;
+    removed: string;
+    added: string;
+}
+
+/**
+ * Changes between two texts with exact offsets into the base text.
+ * Diffs with whitespace as tokens, since word diffs report unchanged runs in the proposed text's spacing.
+ */
+export function listChanges(baseText: string, proposedText: string): TextChange[] {
+    const changes: TextChange[] = [];
+    let offset = 0; // Position in the base text
+    let current: TextChange | null = null;
+
+    for (const part of diffWordsWithSpace(baseText, proposedText)) {
+        if (!part.added && !part.removed) {
+            if (current) changes.push(current);
+            current = null;
+            offset += part.value.length;
+            continue;
+        }
+        current ??= { start: offset, end: offset, removed: '', added: '' };
+        if (part.added) {
+            current.added += part.value;
+        } else {
+            current.removed += part.value;
+            offset += part.value.length;
+            current.end = offset;
+        }
+    }
+    if (current) changes.push(current);
+    return changes;
+}
+
+/**
+ * How much of a proposal falls outside the given ranges of the base text, e.g. a clause edit that rewrote
+ * other clauses too, and the proposal with just those outside changes reverted.
+ * Insertions at a range's edge count as inside.
+ */
+export function checkChangesOutsideRanges(
+    baseText: string,
+    proposedText: string,
+    ranges: { start: number; end: number }[]
+): { outsideChanges: number; withinRanges: string } {
+    let outsideChanges = 0;
+    let withinRanges = '';
+    let cursor = 0;
+
+    for (const change of listChanges(baseText, proposedText)) {
+        const inside = ranges.some(range => change.start >= range.start && change.end <= range.end);
+        if (!inside) outsideChanges++;
+        withinRanges += baseText.slice(cursor, change.start) + (inside ? change.added : change.removed);
+        cursor = change.end;
+    }
+    return { outsideChanges, withinRanges: withinRanges + baseText.slice(cursor) };
+}
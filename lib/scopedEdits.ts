@@ -0,0 +1,73 @@
+import { anchorQuote, createAnchorIndex } from './anchoring';
+import { findClause, parseClauses } from './clauses';
+
+/**
+ * A range of the contract the copilot may rewrite in clause-scoped mode
+ */
+export interface EditScope {
+    id: string; // Sent as the target's ID; the stream's edit_start names it
+    start: number; // Character range in the contract text the request was made against
+    end: number;
+    text: string;
+}
+
+// Closing quotes or brackets and the punctuation ending a sentence or list item, e.g. `notice.` or `notice");`
+const TRAILING_PUNCTUATION = /^["”’)\]]*[.;:!?]?["”’)\]]*/;
+
+/**
+ * The ranges a clause-scoped request covers, one per selected flag: the contract clause the flag sits in,
+ * or just its quoted passages when the outline has no clause for it. Overlapping ranges are merged.
+ * Returns null when a flag can't be located, so the caller falls back to a whole-document edit.
+ */
+export function locateEditScopes(text: string, items: { id: string; original_text: string; sectionId: string | null }[]): EditScope[] | null {
+    const clauses = parseClauses(text);
+    const index = createAnchorIndex(text);
+    const ranges: Omit<EditScope, 'text'>[] = [];
+
+    for (const item of items) {
+        const clause = item.sectionId ? findClause(clauses, item.sectionId) : null;
+        if (clause) {
+            ranges.push({ id: clause.id, start: clause.start, end: clause.end });
+            continue;
+        }
+        const { anchors } = anchorQuote(index, item.original_text);
+        if (anchors.length === 0) return null;
+        // One range per anchor: a passage quoted twice mustn't open up everything between its copies.
+        // Anchors end at the last word; the sentence's closing punctuation belongs to the range,
+        // since replacements come back as whole sentences with their own.
+        anchors.forEach((anchor, idx) => ranges.push({
+            id: idx === 0 ? `quote-${item.id}` : `quote-${item.id}-${idx + 1}`,
+            start: anchor.start,
+            end: anchor.end + (text.slice(anchor.end).match(TRAILING_PUNCTUATION)?.[0].length ?? 0),
+        }));
+    }
+
+    ranges.sort((a, b) => a.start - b.start);
+    const merged: Omit<EditScope, 'text'>[] = [];
+    for (const range of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && range.start < last.end) last.end = Math.max(last.end, range.end);
+        else merged.push({ ...range });
+    }
+    return merged.map(range => ({ ...range, text: text.slice(range.start, range.end) }));
+}
+
+/**
+ * Splices clause replacements into the contract. Scopes without a replacement are left as they are,
+ * and each replacement keeps the whitespace that surrounded the original clause.
+ */
+export function spliceScopedEdits(text: string, scopes: EditScope[], replacements: Record<string, string>): string {
+    let result = '';
+    let cursor = 0;
+    for (const scope of scopes) {
+        const replacement = replacements[scope.id];
+        if (replacement === undefined) continue;
+
+        const original = text.slice(scope.start, scope.end);
+        const leading = original.match(/^\s*/)![0];
+        const trailing = original.slice(leading.length).match(/\s*$/)![0];
+        result += text.slice(cursor, scope.start) + leading + replacement.trim() + trailing;
+        cursor = scope.end;
+    }
+    return result + text.slice(cursor);
+}
@@ -0,0 +1,107 @@
+/**
+ * The negotiator's plan behind a copilot reply, from the stream's `strategy` event
+ */
+export interface NegotiationStrategy {
+    summary: string; // Overall approach, may be empty
+    leverage: string[];
+    fallbacks: string[];
+    concessions: string[];
+    // Anything else the model sent, kept under its own heading rather than dropped
+    other: { label: string; items: string[] }[];
+}
+
+type StrategyList = 'leverage' | 'fallbacks' | 'concessions';
+
+export const STRATEGY_SECTIONS: { key: StrategyList; label: string }[] = [
+    { key: 'leverage', label: 'Leverage' },
+    { key: 'fallbacks', label: 'Fallback positions' },
+    { key: 'concessions', label: 'What to concede' },
+];
+
+// The prompt has used several names for the same idea; map them all onto one field
+const SUMMARY_KEYS = ['summary', 'approach', 'strategy', 'overview', 'goal', 'objective'];
+const LIST_KEYS: Record<StrategyList, string[]> = {
+    leverage: ['leverage', 'leverage_points', 'strengths', 'bargaining_power'],
+    fallbacks: ['fallbacks', 'fallback', 'fallback_positions', 'alternatives'],
+    concessions: ['concessions', 'concede', 'what_to_concede', 'trade_offs', 'tradeoffs', 'give'],
+};
+
+const normalizeKey = (key: string) => key.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+const humanizeKey = (key: string) => {
+    const words = key.replace(/[_-]+/g, ' ').trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// A list field may arrive as an array, a bulleted string, or objects like { point, reason }
+function toItems(value: unknown): string[] {
+    if (Array.isArray(value)) return value.flatMap(toItems);
+    if (typeof value === 'string') {
+        return value
+            .split('\n')
+            .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+            .filter(Boolean);
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') return [String(value)];
+    if (value && typeof value === 'object') {
+        const text = Object.values(value).flatMap(toItems).join(' — ');
+        return text ? [text] : [];
+    }
+    return [];
+}
+
+/**
+ * Builds a strategy from whatever the stream sent: an object, a JSON string, or plain prose (kept as the summary).
+ * Returns null when there's nothing to show.
+ */
+export function parseStrategy(content: unknown): NegotiationStrategy | null {
+    let data = content;
+    if (typeof data === 'string') {
+        const trimmed = data.trim();
+        if (!trimmed) return null;
+        try {
+            data = JSON.parse(trimmed);
+        } catch {
+            return { summary: trimmed, leverage: [], fallbacks: [], concessions: [], other: [] };
+        }
+        if (typeof data === 'string') return parseStrategy(data);
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        const items = toItems(data);
+        return items.length > 0 ? { summary: items.join('\n'), leverage: [], fallbacks: [], concessions: [], other: [] } : null;
+    }
+
+    const strategy: NegotiationStrategy = { summary: '', leverage: [], fallbacks: [], concessions: [], other: [] };
+    for (const [rawKey, value] of Object.entries(data)) {
+        const key = normalizeKey(rawKey);
+        const list = (Object.keys(LIST_KEYS) as StrategyList[]).find(field => LIST_KEYS[field].includes(key));
+        if (list) {
+            strategy[list].push(...toItems(value));
+        } else if (SUMMARY_KEYS.includes(key) && !strategy.summary && typeof value === 'string') {
+            strategy.summary = value.trim();
+        } else {
+            const items = toItems(value);
+            if (items.length > 0) strategy.other.push({ label: humanizeKey(rawKey), items });
+        }
+    }
+
+    const empty = !strategy.summary && strategy.other.length === 0 && STRATEGY_SECTIONS.every(({ key }) => strategy[key].length === 0);
+    return empty ? null : strategy;
+}
+
+/**
+ * The strategy as Markdown, for chat exports
+ */
+export function strategyToMarkdown(strategy: NegotiationStrategy): string {
+    const parts = ['**Strategy**'];
+    if (strategy.summary) parts.push(strategy.summary);
+
+    const sections = [
+        ...STRATEGY_SECTIONS.map(({ key, label }) => ({ label, items: strategy[key] })),
+        ...strategy.other,
+    ];
+    for (const { label, items } of sections) {
+        if (items.length > 0) parts.push(`_${label}_\n${items.map(item => `- ${item}`).join('\n')}`);
+    }
+    return parts.join('\n\n');
+}
@@ -1,51 +1,240 @@
 /**
- * Cleans PDF-extracted text that has one word per line
- * Joins words into paragraphs while preserving structure
- */
-export function cleanPdfText(rawText: string): string {
-    // Step 1: Normalize line endings
-    let text = rawText.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-
-    // Step 2: Process lines and join into paragraphs
-    const lines = text.split('\n');
-    let result = '';
-    let currentParagraph = '';
-    let emptyLineCount = 0;
-
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim();
-
-        if (!line) {
-            emptyLineCount++;
-            // If we see multiple empty lines (or end of content), that's a paragraph break
-            if (emptyLineCount >= 2 && currentParagraph) {
-                result += currentParagraph + '\n\n';
-                currentParagraph = '';
+ * Normalizes extracted contract text while keeping its structure.
+ * Handles both one-word-per-line PDF output and ordinary line-wrapped text:
+ * unwraps soft line breaks, keeps section numbering, lists, tables and signature blocks on their own lines,
+ * drops repeated page headers/footers and page numbers, and rejoins hyphenated line breaks.
+ * Idempotent: normalizing already-normalized text returns it unchanged.
+ */
+export function normalizeContractText(rawText: string): string {
+    // Normalize line endings and odd whitespace; form feeds mark page breaks
+    const text = rawText
+        .replace(/\r\n?/g, '\n')
+        .replace(/[\u00a0\u2007\u202f]/g, ' ') // Non-breaking spaces
+        .replace(/[ \t]+$/gm, '');
+
+    const lines = removePageFurniture(text);
+    const words = documentWords(text);
+    // Rebuilt paragraphs go through the line pass too, so a second run sees the same shape of text
+    const output = isWordPerLine(lines)
+        ? unwrapLines(removePageFurniture(joinWordPerLine(lines, words)), words)
+        : unwrapLines(lines, words);
+
+    return output.trim();
+}
+
+// "1.", "1.1", "2.3.4", "(a)", "(iv)", "(12)", "a)", "A." and "Article IV" / "Section 5" style headings
+const SECTION_MARKER = /^(?:(?:article|section|clause|schedule|exhibit|annex|appendix|part)\s+(?:\d+(?:\.\d+)*|[ivxlc]+|[a-z])\b[.:]?|\d+(?:\.\d+)+\.?(?=\s|$)|\d+\.(?=\s|$)|\((?:[a-z]{1,2}|[ivxlc]+|\d{1,3})\)|[a-z]\)(?=\s|$)|[A-Z]\.(?=\s|$))/i;
+const BULLET = /^[•◦▪‣*–-]\s+/;
+const PAGE_NUMBER = /^(?:page\s+\d{1,4}(?:\s*(?:of|\/)\s*\d{1,4})?|\d{1,4}\s*(?:of|\/)\s*\d{1,4}|[-–—]\s*\d{1,4}\s*[-–—])$/i;
+const BARE_NUMBER = /^\d{1,4}$/;
+const TABLE_ROW = /\S(?: {2,}|\t)\S.*\S(?: {2,}|\t)\S/; // Two or more column gaps
+const SIGNATURE_LINE = /_{3,}|^(?:by|name|title|date|signature|witness)\s*:/i;
+const FIELD_LABEL = /^[A-Z][A-Za-z ]{0,24}:(?:\s|$)/;
+
+/**
+ * Whether a line starts with section numbering such as "1.1", "(a)" or "Article IV"
+ */
+export function startsWithSectionMarker(line: string): boolean {
+    return SECTION_MARKER.test(line.trim());
+}
+
+/**
+ * The section numbering a line starts with, or null
+ */
+export function matchSectionMarker(line: string): string | null {
+    return line.trim().match(SECTION_MARKER)?.[0] ?? null;
+}
+
+const isAllCapsHeading = (line: string) => /[A-Z]{2}/.test(line) && !/[a-z]/.test(line) && line.length <= 80;
+const isTableRow = (line: string) => TABLE_ROW.test(line);
+const endsSentence = (text: string) => /[.;:!?]["”’)]?$/.test(text);
+// First parts of hyphenated compounds, e.g. "third-party", "self-executing", "non-exclusive"
+const COMPOUND_PREFIX = /(?:^|[^A-Za-z])(?:self|third|non|quasi|well|first|second|one|two|half)-$/i;
+
+// Lowercased words of the document, hyphenated compounds included; words split by a line break appear as their two parts
+const documentWords = (text: string) => new Set(text.toLowerCase().match(/[a-z]+(?:-[a-z]+)*/g) ?? []);
+
+/**
+ * Rejoins a word split by a hyphen at a line break. The hyphen is dropped unless the word is a compound:
+ * the document's other uses of the word decide, and failing that a compound prefix or an earlier hyphen keeps it.
+ */
+function joinHyphenated(current: string, next: string, words: Set<string>): string {
+    const head = current.match(/[A-Za-z]+(?:-[A-Za-z]+)*-$/)?.[0] ?? '';
+    const tail = next.match(/^[A-Za-z]+(?:-[A-Za-z]+)*/)?.[0] ?? '';
+    const joined = `${head.slice(0, -1)}${tail}`.toLowerCase();
+    const keepHyphen = !words.has(joined)
+        && (words.has(`${head}${tail}`.toLowerCase()) || head.slice(0, -1).includes('-') || COMPOUND_PREFIX.test(head));
+    return keepHyphen ? current + next : current.slice(0, -1) + next;
+}
+
+/**
+ * Drops page numbers, and headers/footers repeated at the top or bottom of pages.
+ * Headers and footers are only recognized across real page breaks (form feeds);
+ * lines elsewhere are kept, even when they repeat.
+ */
+function removePageFurniture(text: string): string[] {
+    const pages = text.split('\f').map(page => page.split('\n'));
+    // Page numbers change from page to page, so edge lines are compared with their digits collapsed
+    const furnitureKey = (line: string) => line.trim().toLowerCase().replace(/\d+/g, '#');
+    const isCandidate = (line: string) => line.length <= 80 && line.split(/\s+/).length >= 2
+        && !startsWithSectionMarker(line) && !SIGNATURE_LINE.test(line) && !isTableRow(line);
+
+    const furniture = pages.map(() => new Set<number>());
+    if (pages.length > 1) {
+        const edges = pages.map(pageLines => [...new Set([...firstContentIndexes(pageLines, 2), ...lastContentIndexes(pageLines, 2)])]);
+
+        // Count each edge line once per page
+        const edgeCounts = new Map<string, number>();
+        pages.forEach((pageLines, p) => {
+            const keys = new Set(edges[p].map(i => pageLines[i].trim()).filter(isCandidate).map(furnitureKey));
+            keys.forEach(key => edgeCounts.set(key, (edgeCounts.get(key) ?? 0) + 1));
+        });
+
+        const threshold = Math.max(2, Math.ceil(pages.length / 2));
+        pages.forEach((pageLines, p) => edges[p].forEach(i => {
+            const trimmed = pageLines[i].trim();
+            // Bare numbers only count as page numbers when they sit at a page edge
+            if (BARE_NUMBER.test(trimmed) || (isCandidate(trimmed) && (edgeCounts.get(furnitureKey(trimmed)) ?? 0) >= threshold)) {
+                furniture[p].add(i);
             }
-            continue;
+        }));
+    }
+
+    return pages.flatMap((pageLines, p) => {
+        const kept = pageLines.filter((line, i) => !furniture[p].has(i) && !PAGE_NUMBER.test(line.trim()));
+        // A page break isn't a paragraph break: sentences run on to the next page
+        while (p < pages.length - 1 && kept.length > 0 && !kept[kept.length - 1].trim()) kept.pop();
+        while (p > 0 && kept.length > 0 && !kept[0].trim()) kept.shift();
+        return kept;
+    });
+}
+
+function firstContentIndexes(lines: string[], count: number): number[] {
+    return lines.map((l, i) => (l.trim() ? i : -1)).filter(i => i >= 0).slice(0, count);
+}
+
+function lastContentIndexes(lines: string[], count: number): number[] {
+    return lines.map((l, i) => (l.trim() ? i : -1)).filter(i => i >= 0).slice(-count);
+}
+
+/**
+ * PDF extractors sometimes emit one word per line; real text has longer lines
+ */
+function isWordPerLine(lines: string[]): boolean {
+    const content = lines.map(l => l.trim()).filter(Boolean);
+    if (content.length < 10) return false;
+    const singleWord = content.filter(l => !/\s/.test(l)).length;
+    return singleWord / content.length >= 0.6;
+}
+
+/**
+ * Rebuilds paragraphs from one-word-per-line output.
+ * Two blank lines end a paragraph, and so does section numbering that follows the end of a sentence.
+ */
+function joinWordPerLine(lines: string[], words: Set<string>): string {
+    const paragraphs: string[] = [];
+    let current = '';
+    let blankRun = 0;
+
+    const flush = () => {
+        if (current) paragraphs.push(tidyLine(current.replace(/\bPage \d{1,4} of \d{1,4}\b/g, '')));
+        current = '';
+    };
+
+    lines.forEach((raw, idx) => {
+        const word = raw.trim();
+        if (!word) {
+            blankRun++;
+            if (blankRun >= 2) flush();
+            return;
         }
+        blankRun = 0;
 
-        // Reset empty line counter
-        emptyLineCount = 0;
+        const lookahead = `${word} ${lines[idx + 1]?.trim() ?? ''}`;
+        const startsSection = startsWithSectionMarker(word) || (/^[A-Za-z]+$/.test(word) && startsWithSectionMarker(lookahead));
+        if (current && endsSentence(current) && startsSection) {
+            flush();
+        }
 
-        // Add word to current paragraph
-        if (currentParagraph) {
-            currentParagraph += ' ' + line;
+        if (/[A-Za-z]-$/.test(current) && /^[a-z]/.test(word)) {
+            current = joinHyphenated(current, word, words); // Hyphenated line break
         } else {
-            currentParagraph = line;
+            current = current ? `${current} ${word}` : word;
         }
-    }
+    });
+    flush();
+
+    return paragraphs.join('\n\n');
+}
+
+/**
+ * Unwraps soft line breaks in ordinary text, keeping structural lines on their own
+ */
+function unwrapLines(lines: string[], words: Set<string>): string {
+    const output: string[] = [];
+    let current: string | null = null;
+    let blankRun = 0;
+
+    const flush = () => {
+        if (current !== null) output.push(current);
+        current = null;
+    };
+
+    for (const raw of lines) {
+        if (!raw.trim()) {
+            flush();
+            blankRun++;
+            // Collapse runs of blank lines into a single paragraph break
+            if (blankRun === 1 && output.length > 0) output.push('');
+            continue;
+        }
+        blankRun = 0;
+        const line = isTableRow(raw) ? raw.replace(/\s+$/, '') : tidyLine(raw);
 
-    // Add final paragraph
-    if (currentParagraph) {
-        result += currentParagraph;
+        if (current === null) {
+            current = line;
+        } else if (/[A-Za-z]-$/.test(current) && /^[a-z]/.test(line) && !isTableRow(current)) {
+            current = joinHyphenated(current, line, words); // Hyphenated line break
+        } else if (shouldJoin(current, line)) {
+            current = `${current} ${line}`;
+        } else {
+            flush();
+            current = line;
+        }
     }
+    flush();
+
+    while (output[output.length - 1] === '') output.pop();
+    return output.join('\n');
+}
+
+function isStructural(line: string): boolean {
+    return startsWithSectionMarker(line)
+        || BULLET.test(line)
+        || isTableRow(line)
+        || SIGNATURE_LINE.test(line)
+        || FIELD_LABEL.test(line)
+        || isAllCapsHeading(line);
+}
 
-    // Step 3: Clean up multiple spaces
-    text = result.replace(/ +/g, ' ');
+/**
+ * Decides whether the next line continues the current one.
+ * Depends only on the two lines, so a second pass makes the same decisions.
+ */
+function shouldJoin(current: string, next: string): boolean {
+    // A lone marker ("1." or "Article IV") belongs with the heading on the next line
+    if (SECTION_MARKER.test(current) && current.replace(SECTION_MARKER, '').trim() === '') return !isStructural(next);
 
-    // Step 4: Fix spacing around punctuation
-    text = text.replace(/ ([.,;:!?])/g, '$1');
+    if (isStructural(next)) return false;
+    if (isTableRow(current) || SIGNATURE_LINE.test(current) || isAllCapsHeading(current)) return false;
+    if (endsSentence(current)) return false;
+    if (/^[a-z]/.test(next)) return true;
+    return current.length >= 50;
+}
 
-    return text;
+/**
+ * Collapses repeated spaces and stray spaces before punctuation
+ */
+function tidyLine(line: string): string {
+    return line.trim().replace(/ {2,}/g, ' ').replace(/ ([.,;:!?])(?=\s|$)/g, '$1');
 }